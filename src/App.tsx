@@ -1,13 +1,35 @@
+import { useEffect } from 'react';
 import { useGameStore } from './stores/gameStore';
 import { useWalletStore } from './stores/walletStore';
+import { useSettingsStore } from './stores/settingsStore';
+import { useScheduleStore } from './stores/scheduleStore';
+import { useOddsStore } from './stores/oddsStore';
+import { useMarketStore } from './stores/marketStore';
+import { ODDS_FORMAT_LABELS } from './utils/oddsFormat';
+import { MARKET_CONFIG, OddsFormat } from './types';
 import { Lobby } from './components/lobby/Lobby';
 import { Form } from './components/form/Form';
 import { RaceView } from './components/race/RaceView';
 import { ResultsView } from './components/results/ResultsView';
+import { PhotoFinishView } from './components/photo-finish/PhotoFinishView';
+import { ReplayView } from './components/replay/ReplayView';
 
 function App() {
   const { currentScreen, currentRace } = useGameStore();
   const { balance } = useWalletStore();
+  const { oddsFormat, setOddsFormat } = useSettingsStore();
+  const { races } = useScheduleStore();
+  // Actions only, so market moves don't re-render the whole app
+  const getBook = useOddsStore((state) => state.getBook);
+  const catchUp = useMarketStore((state) => state.catchUp);
+
+  // Markets on the card move until each race's off, whichever screen is open
+  useEffect(() => {
+    const update = () => races.forEach((race) => catchUp(race, getBook(race)));
+    update();
+    const interval = setInterval(update, MARKET_CONFIG.TICK_MS);
+    return () => clearInterval(interval);
+  }, [races, getBook, catchUp]);
   
   return (
     <div className="min-h-screen bg-slate-950 text-white">
@@ -19,6 +41,19 @@ function App() {
               TURF SPRINT
             </h1>
             <div className="flex items-center gap-4">
+              <label className="text-sm text-slate-400 flex items-center gap-2">
+                Odds
+                <select
+                  value={oddsFormat}
+                  onChange={(e) => setOddsFormat(e.target.value as OddsFormat)}
+                  className="bg-slate-800 text-white border border-slate-700 rounded px-2 py-1 text-sm"
+                  data-testid="odds-format-selector"
+                >
+                  {(Object.keys(ODDS_FORMAT_LABELS) as OddsFormat[]).map((format) => (
+                    <option key={format} value={format}>{ODDS_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              </label>
               <div className="text-sm text-slate-400">
                 Balance: <span className="text-gold-400 font-mono" data-testid="wallet-balance">{balance}</span> credits
               </div>
@@ -44,16 +79,11 @@ function App() {
             <ResultsView race={currentRace} />
           )}
           
-          {currentScreen === 'photo-finish' && (
-            <div className="text-center py-20">
-              <h2 className="font-display text-4xl font-bold mb-4">
-                Photo Finish
-              </h2>
-              <p className="text-slate-400 text-lg">
-                Coming soon...
-              </p>
-            </div>
+          {currentScreen === 'photo-finish' && currentRace && (
+            <PhotoFinishView race={currentRace} />
           )}
+
+          {currentScreen === 'replay' && <ReplayView />}
         </div>
       </main>
 
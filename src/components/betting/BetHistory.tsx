@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import { useGameStore } from '@/stores/gameStore';
+import { betsStorage, replaysStorage } from '@/utils/localStorage';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+
+// Number of most recent bets listed
+const HISTORY_LIMIT = 10;
+
+export function BetHistory() {
+  const { openReplay } = useGameStore();
+
+  const bets = useMemo(() => betsStorage.get().slice(-HISTORY_LIMIT).reverse(), []);
+  const replayIds = useMemo(() => new Set(replaysStorage.get().map((r) => r.raceId)), []);
+
+  if (bets.length === 0) return null;
+
+  return (
+    <Card variant="elevated" data-testid="bet-history">
+      <CardHeader>
+        <CardTitle>Bet History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {bets.map((bet) => (
+            <div key={bet.id} className="bg-slate-800 rounded-lg p-3 flex items-center justify-between gap-2">
+              <div className="flex-1">
+                <p className="text-white text-sm">
+                  Race #{bet.raceId.slice(-4)} • {bet.inPlayProgress !== undefined ? 'IN-PLAY ' : ''}{bet.eachWay ? `E/W ${bet.eachWay.part.toUpperCase()}` : bet.type.toUpperCase()}
+                </p>
+                <p className="text-xs text-slate-400">
+                  Stake {bet.amount} • {bet.status === 'won'
+                    ? `Returned ${bet.winnings.toFixed(2)}`
+                    : bet.status === 'cashed-out'
+                      ? `Cashed out for ${bet.winnings.toFixed(2)}`
+                    : bet.status === 'pending'
+                      ? 'Awaiting result'
+                      : bet.status === 'cancelled' ? 'Refunded' : 'No return'}
+                </p>
+              </div>
+              <Badge variant={bet.status === 'won' ? 'success' : bet.status === 'lost' ? 'danger' : 'default'}>
+                {bet.status}
+              </Badge>
+              {replayIds.has(bet.raceId) && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => openReplay(bet.raceId, 'lobby')}
+                  data-testid={`replay-bet-${bet.id}`}
+                >
+                  Replay
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,36 +2,139 @@ import { useState } from 'react';
 import { useBettingStore } from '@/stores/bettingStore';
 import { useWalletStore } from '@/stores/walletStore';
 import { useGameStore } from '@/stores/gameStore';
+import { useToteStore } from '@/stores/toteStore';
+import { useMarketStore } from '@/stores/marketStore';
+import { useOddsStore } from '@/stores/oddsStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useScheduleStore } from '@/stores/scheduleStore';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
-import { calculateOdds, formatOdds, calculatePayout } from '@/utils/oddsCalculator';
-import { BetType, ECONOMY_CONFIG, Horse, Race } from '@/types';
+import { formatOdds } from '@/utils/oddsFormat';
+import { getBookPrice } from '@/utils/book';
+import { BET_SELECTIONS, expandLines, isExotic } from '@/utils/exotics';
+import { formatEachWayTerms, getEachWayTerms } from '@/utils/eachWay';
+import { getLineTotals, priceEachWay, priceLines, PricedLine, PriceSource } from '@/utils/pricing';
+import { Bet, BetType, CombinationKind, ECONOMY_CONFIG, ODDS_CONFIG, Race, WagerMode } from '@/types';
 
 interface BettingSlipProps {
-  raceId: string;
-  horses: Horse[];
+  race: Race;
 }
 
-export function BettingSlip({ raceId, horses }: BettingSlipProps) {
-  const { addBet, removeBet, validateBet, getTotalStake, getTotalPotentialPayout, currentBets } = useBettingStore();
-  const { balance, updateBalance } = useWalletStore();
+// Each-way is offered alongside the markets, as a win and a place part
+type SlipBetType = BetType | 'each-way';
+
+const BET_TYPE_DESCRIPTIONS: Record<BetType, string> = {
+  win: '1st',
+  place: '1st or 2nd',
+  show: '1st, 2nd or 3rd',
+  exacta: '1st + 2nd in order',
+  trifecta: 'First three in order',
+  superfecta: 'First four in order',
+  quinella: '1st + 2nd in any order',
+  'first-four': 'First four in any order',
+};
+
+const COMBINATION_LABELS: Record<CombinationKind, string> = {
+  straight: 'Straight',
+  box: 'Box',
+  banker: 'Banker',
+};
+
+const POSITION_LABELS = ['1st', '2nd', '3rd', '4th'];
+
+export function BettingSlip({ race }: BettingSlipProps) {
+  const { id: raceId, horses } = race;
+  const { addBet, addEachWayBet, validateCancellation, cancelBet, validateBet, getTotalStake, getTotalPotentialPayout, currentBets } = useBettingStore();
+  // Only this race's bets are shown, and cancelled, from its slip
+  const raceBets = currentBets.filter((bet) => bet.raceId === raceId);
+  const { races } = useScheduleStore();
+  const { balance, updateBalance, refundStake } = useWalletStore();
   const { selectedHorse } = useGameStore();
-  const [betType, setBetType] = useState<BetType>('win');
+  const { totes, addStake } = useToteStore();
+  const tote = totes[raceId];
+  const { markets, catchUp, recordStake } = useMarketStore();
+  const market = markets[raceId];
+  const { getBook } = useOddsStore();
+  const { oddsFormat } = useSettingsStore();
+  const [mode, setMode] = useState<WagerMode>('fixed');
+  const [betType, setBetType] = useState<SlipBetType>('win');
   const [betAmount, setBetAmount] = useState<number>(ECONOMY_CONFIG.MIN_BET);
   const [error, setError] = useState<string>('');
-  const [exactaHorse2, setExactaHorse2] = useState<string | null>(null);
-
-  const mockRace: Race = {
-    id: raceId,
-    horses,
-    trackSurface: 'firm',
-    weather: 'clear',
-    distance: 1200,
-    status: 'scheduled',
-    startTime: Date.now(),
+  const [combination, setCombination] = useState<CombinationKind>('straight');
+  // Horses for the later places of a straight exotic, in order
+  const [legs, setLegs] = useState<string[]>([]);
+  // Horses boxed with, or filling in behind, the selected horse
+  const [partners, setPartners] = useState<string[]>([]);
+
+  // Prices come from the live market, so they match the form and move until
+  // the bet is placed
+  const opening = getBook(race);
+  const source: PriceSource = { book: market?.book ?? opening, tote };
+  const eachWayTerms = getEachWayTerms(race);
+
+  const selectedHorseOdds = selectedHorse
+    ? getBookPrice(source.book, 'win', [selectedHorse.id]) ?? ODDS_CONFIG.MAX_ODDS
+    : 0;
+
+  const eachWay = betType === 'each-way';
+  // The market a selection is priced in; each-way bets take the win price
+  const marketType: BetType = eachWay ? 'win' : betType;
+  const exotic = isExotic(marketType);
+  const selection = BET_SELECTIONS[marketType];
+
+  // Lines covered by the current selection. The selected horse leads a
+  // straight line, is boxed with its partners, or is the banker.
+  const getLines = (): string[][] => {
+    if (!selectedHorse) return [];
+    if (!exotic) return [[selectedHorse.id]];
+
+    switch (combination) {
+      case 'straight':
+        return expandLines(marketType, 'straight', [selectedHorse.id, ...legs.filter(Boolean)]);
+      case 'box':
+        return expandLines(marketType, 'box', [selectedHorse.id, ...partners]);
+      case 'banker':
+        return expandLines(marketType, 'banker', partners, [selectedHorse.id]);
+      default:
+        return [];
+    }
   };
 
-  const selectedHorseOdds = selectedHorse ? calculateOdds(selectedHorse, mockRace) : 0;
+  const lines = getLines();
+  // An each-way bet stakes the amount on both the win and the place
+  const totalCost = betAmount * lines.length * (eachWay ? 2 : 1);
+
+  // Price the current selection from a book and the tote pools
+  const priceSlip = (from: PriceSource) => {
+    const eachWayPrices = eachWay && selectedHorse && eachWayTerms
+      ? priceEachWay(from, selectedHorse.id, eachWayTerms, betAmount)
+      : undefined;
+    const pricedLines: PricedLine[] | undefined = eachWay
+      ? eachWayPrices && [eachWayPrices.win, eachWayPrices.place]
+      : priceLines(from, mode, marketType, lines, betAmount);
+    return { eachWayPrices, pricedLines };
+  };
+
+  const { eachWayPrices, pricedLines } = priceSlip(source);
+  const lineTotals = getLineTotals(pricedLines ?? []);
+
+  const getLineLabel = (line: PricedLine, index: number): string => {
+    if (eachWay) return index === 0 ? 'Win' : 'Place';
+    return line.horseIds
+      .map((id) => horses.find((h) => h.id === id)?.name ?? id)
+      .join(selection.ordered ? ' → ' : ' + ');
+  };
+
+  const resetSelection = () => {
+    setLegs([]);
+    setPartners([]);
+  };
+
+  const togglePartner = (horseId: string) => {
+    setPartners((current) => current.includes(horseId)
+      ? current.filter((id) => id !== horseId)
+      : [...current, horseId]);
+  };
 
   const handleAddBet = () => {
     if (!selectedHorse) {
@@ -39,47 +142,130 @@ export function BettingSlip({ raceId, horses }: BettingSlipProps) {
       return;
     }
 
-    const validation = validateBet(
-      {
+    if (lines.length === 0) {
+      setError(`Select ${selection.horses} horses for a ${selection.label.toLowerCase()}`);
+      return;
+    }
+
+    if (mode === 'tote' && !tote) {
+      setError('The tote is not open for this race');
+      return;
+    }
+
+    // Bets are struck at the market's prices as it stands now
+    const placing = priceSlip({ book: catchUp(race, opening).book, tote });
+
+    if (eachWay) {
+      if (mode === 'tote') {
+        setError('Each-way bets are fixed odds only');
+        return;
+      }
+      if (!eachWayTerms) {
+        setError('Each-way betting is not available in this race');
+        return;
+      }
+      if (!placing.eachWayPrices) {
+        setError('No price is available for this bet');
+        return;
+      }
+
+      const bet: Omit<Bet, 'id' | 'placedAt' | 'type' | 'eachWay'> = {
         raceId,
-        type: betType,
-        horseIds: betType === 'exacta' ? [selectedHorse.id, exactaHorse2!] : [selectedHorse.id],
+        mode,
+        horseIds: [selectedHorse.id],
         amount: betAmount,
-        potentialPayout: calculatePayout(betType, selectedHorseOdds, betAmount),
+        odds: placing.eachWayPrices.win.odds,
+        potentialPayout: 0,
         winnings: 0,
         status: 'pending',
-      },
-      balance
-    );
+      };
 
-    if (!validation.valid) {
-      setError(validation.error || 'Invalid bet');
+      const validation = validateBet({ ...bet, type: 'win', amount: totalCost }, balance);
+      if (!validation.valid) {
+        setError(validation.error || 'Invalid bet');
+        return;
+      }
+
+      addEachWayBet(bet, eachWayTerms);
+      recordStake(raceId, bet.horseIds, totalCost);
+      updateBalance(-totalCost);
+
+      setError('');
+      setBetAmount(ECONOMY_CONFIG.MIN_BET);
       return;
     }
 
-    addBet({
+    if (!placing.pricedLines) {
+      setError('No price is available for this bet');
+      return;
+    }
+
+    // Fixed odds bets lock the price taken. Tote bets return the dividend
+    // declared after the race, so they record the estimate from the pools.
+    const bets: Omit<Bet, 'id' | 'placedAt'>[] = placing.pricedLines.map((line) => ({
       raceId,
-      type: betType,
-      horseIds: betType === 'exacta' ? [selectedHorse.id, exactaHorse2!] : [selectedHorse.id],
-      amount: betAmount,
-      potentialPayout: calculatePayout(betType, selectedHorseOdds, betAmount),
+      type: marketType,
+      mode,
+      horseIds: line.horseIds,
+      amount: line.stake,
+      odds: line.odds,
+      potentialPayout: line.potentialPayout,
       winnings: 0,
       status: 'pending',
+    }));
+
+    const validation = validateBet({ ...bets[0], amount: totalCost }, balance);
+
+    if (!validation.valid) {
+      setError(validation.error || 'Invalid bet');
+      return;
+    }
+
+    bets.forEach((bet) => {
+      addBet(bet);
+      if (mode === 'tote') {
+        addStake(raceId, bet.type, bet.horseIds, bet.amount);
+      } else {
+        recordStake(raceId, bet.horseIds, bet.amount);
+      }
     });
 
-    // Deduct bet amount from wallet
-    updateBalance(-betAmount);
+    // Deduct the cost of every line from wallet
+    updateBalance(-totalCost);
 
     setError('');
     setBetAmount(ECONOMY_CONFIG.MIN_BET);
   };
 
-  const handleRemoveBet = (betId: string) => {
-    removeBet(betId);
+  const handleCancelBet = (bet: Bet) => {
+    // The cut-off is the bet's own race's, which is still on the card until it is run
+    const betRace = races.find((scheduled) => scheduled.id === bet.raceId);
+    if (!betRace) {
+      setError('This bet can no longer be cancelled');
+      return;
+    }
+
+    const validation = validateCancellation(bet.id, betRace.startTime);
+    if (!validation.valid) {
+      setError(validation.error || 'This bet can no longer be cancelled');
+      return;
+    }
+
+    // Both parts of an each-way bet are cancelled together
+    const cancelled = cancelBet(bet.id, betRace.startTime);
+    cancelled.forEach((part) => {
+      if (part.mode === 'tote') {
+        addStake(part.raceId, part.type, part.horseIds, -part.amount);
+      } else {
+        recordStake(part.raceId, part.horseIds, -part.amount);
+      }
+    });
+    refundStake(cancelled.reduce((sum, part) => sum + part.amount, 0));
+    setError('');
   };
 
-  const totalStake = getTotalStake();
-  const totalPotentialPayout = getTotalPotentialPayout();
+  const totalStake = getTotalStake(raceId);
+  const totalPotentialPayout = getTotalPotentialPayout(raceId);
   const potentialProfit = totalPotentialPayout - totalStake;
 
   return (
@@ -102,7 +288,7 @@ export function BettingSlip({ raceId, horses }: BettingSlipProps) {
                     {selectedHorse.name}
                   </p>
                   <Badge variant="gold" data-testid="selected-horse-odds">
-                    {formatOdds(selectedHorseOdds)}x
+                    {formatOdds(selectedHorseOdds, oddsFormat)}
                   </Badge>
                 </div>
               </div>
@@ -111,6 +297,26 @@ export function BettingSlip({ raceId, horses }: BettingSlipProps) {
         )}
 
         <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Betting
+            </label>
+            <div className="flex gap-2" data-testid="wager-mode-selector">
+              {(['fixed', 'tote'] as WagerMode[]).map((option) => (
+                <Button
+                  key={option}
+                  variant={mode === option ? 'primary' : 'secondary'}
+                  size="sm"
+                  onClick={() => setMode(option)}
+                  aria-pressed={mode === option}
+                  data-testid={`wager-mode-${option}`}
+                >
+                  {option === 'fixed' ? 'Fixed Odds' : 'Tote'}
+                </Button>
+              ))}
+            </div>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-slate-300 mb-2">
               Bet Type
@@ -118,45 +324,124 @@ export function BettingSlip({ raceId, horses }: BettingSlipProps) {
             <select
               value={betType}
               onChange={(e) => {
-                setBetType(e.target.value as BetType);
-                setExactaHorse2(null);
+                setBetType(e.target.value as SlipBetType);
+                resetSelection();
               }}
               className="w-full bg-slate-700 text-white border border-slate-600 rounded-lg px-3 py-2"
               data-testid="bet-type-selector"
             >
-              <option value="win">Win (1st)</option>
-              <option value="place">Place (1st or 2nd)</option>
-              <option value="show">Show (1st, 2nd or 3rd)</option>
-              <option value="exacta">Exacta (1st + 2nd)</option>
+              {(Object.keys(BET_SELECTIONS) as BetType[]).map((type) => (
+                <option key={type} value={type}>
+                  {BET_SELECTIONS[type].label} ({BET_TYPE_DESCRIPTIONS[type]})
+                </option>
+              ))}
+              <option value="each-way" disabled={!eachWayTerms}>
+                Each Way ({eachWayTerms ? formatEachWayTerms(eachWayTerms) : 'not available'})
+              </option>
             </select>
           </div>
 
-          {betType === 'exacta' && selectedHorse && (
-            <div>
-              <label className="block text-sm font-medium text-slate-300 mb-2">
-                Second Horse (for Exacta)
-              </label>
-              <select
-                value={exactaHorse2 || ''}
-                onChange={(e) => setExactaHorse2(e.target.value || null)}
-                className="w-full bg-slate-700 text-white border border-slate-600 rounded-lg px-3 py-2"
-                data-testid="exacta-horse-selector"
-              >
-                <option value="">Select horse...</option>
-                {horses
-                  .filter((h) => h.id !== selectedHorse.id)
-                  .map((horse) => (
-                    <option key={horse.id} value={horse.id}>
-                      {horse.name}
-                    </option>
-                  ))}
-              </select>
+          {eachWay && selectedHorse && eachWayTerms && (
+            <p className="text-sm text-slate-400" data-testid="each-way-cost">
+              Win {betAmount} + place {betAmount} ={' '}
+              <span className="text-white font-semibold">{totalCost} credits</span> • place pays{' '}
+              {eachWayPrices ? formatOdds(eachWayPrices.place.odds, oddsFormat) : '-'} if in the first {eachWayTerms.places}
+            </p>
+          )}
+
+          {exotic && selectedHorse && (
+            <div className="space-y-3" data-testid="exotic-selection">
+              <div className="flex gap-2" data-testid="combination-selector">
+                {(Object.keys(COMBINATION_LABELS) as CombinationKind[]).map((kind) => (
+                  <Button
+                    key={kind}
+                    variant={combination === kind ? 'primary' : 'secondary'}
+                    size="sm"
+                    onClick={() => {
+                      setCombination(kind);
+                      resetSelection();
+                    }}
+                    aria-pressed={combination === kind}
+                    data-testid={`combination-${kind}`}
+                  >
+                    {COMBINATION_LABELS[kind]}
+                  </Button>
+                ))}
+              </div>
+
+              {combination === 'straight' ? (
+                Array.from({ length: selection.horses - 1 }, (_, i) => (
+                  <div key={i}>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      {selection.ordered ? POSITION_LABELS[i + 1] : `Horse ${i + 2}`}
+                    </label>
+                    <select
+                      value={legs[i] ?? ''}
+                      onChange={(e) => {
+                        const next = [...legs];
+                        next[i] = e.target.value;
+                        setLegs(next);
+                      }}
+                      className="w-full bg-slate-700 text-white border border-slate-600 rounded-lg px-3 py-2"
+                      data-testid={`leg-selector-${i + 2}`}
+                    >
+                      <option value="">Select horse...</option>
+                      {horses
+                        .filter((h) => h.id !== selectedHorse.id && (h.id === legs[i] || !legs.includes(h.id)))
+                        .map((horse) => (
+                          <option key={horse.id} value={horse.id}>
+                            {horse.name}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                ))
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    {combination === 'box'
+                      ? `Box ${selectedHorse.name} with`
+                      : `${selectedHorse.name} ${selection.ordered ? 'to win' : 'on every line'}, with`}
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {horses
+                      .filter((h) => h.id !== selectedHorse.id)
+                      .map((horse) => (
+                        <Button
+                          key={horse.id}
+                          variant={partners.includes(horse.id) ? 'primary' : 'secondary'}
+                          size="sm"
+                          onClick={() => togglePartner(horse.id)}
+                          aria-pressed={partners.includes(horse.id)}
+                          data-testid={`combination-horse-${horse.id}`}
+                        >
+                          {horse.name}
+                        </Button>
+                      ))}
+                    {combination === 'banker' && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => setPartners(horses.filter((h) => h.id !== selectedHorse.id).map((h) => h.id))}
+                        data-testid="wheel-button"
+                      >
+                        Wheel (all)
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <p className="text-sm text-slate-400" data-testid="combination-cost">
+                {lines.length} line{lines.length === 1 ? '' : 's'} × {betAmount} ={' '}
+                <span className="text-white font-semibold">{totalCost} credits</span>
+              </p>
             </div>
           )}
 
           <div>
             <label className="block text-sm font-medium text-slate-300 mb-2">
-              Bet Amount
+              {exotic ? 'Stake per Line' : eachWay ? 'Stake per Part' : 'Bet Amount'}
             </label>
             <div className="flex gap-2">
               <input
@@ -186,6 +471,37 @@ export function BettingSlip({ raceId, horses }: BettingSlipProps) {
             </div>
           </div>
 
+          {pricedLines && pricedLines.length > 0 && (
+            <div className="bg-slate-800 rounded-lg p-3 text-sm" data-testid="slip-lines">
+              <div className="grid grid-cols-4 gap-2 text-xs text-slate-400 mb-1">
+                <span>Line</span>
+                <span className="text-right">Price</span>
+                <span className="text-right">Stake</span>
+                <span className="text-right">Returns</span>
+              </div>
+              {pricedLines.map((line, i) => (
+                <div key={`${line.horseIds.join('|')}-${i}`} className="grid grid-cols-4 gap-2" data-testid="slip-line">
+                  <span className="text-slate-300 truncate">{getLineLabel(line, i)}</span>
+                  <span className="text-right text-white" data-testid="slip-line-price">
+                    {mode === 'tote' ? 'Tote ~' : ''}{formatOdds(line.odds, oddsFormat)}
+                  </span>
+                  <span className="text-right text-white">{line.stake}</span>
+                  <span className="text-right text-white" data-testid="slip-line-return">
+                    {line.potentialPayout.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+              <div className="grid grid-cols-4 gap-2 border-t border-slate-700 mt-2 pt-2 font-semibold">
+                <span className="text-slate-300">Total</span>
+                <span />
+                <span className="text-right text-white" data-testid="slip-lines-stake">{lineTotals.stake}</span>
+                <span className="text-right text-white" data-testid="slip-lines-return">
+                  {lineTotals.potentialPayout.toFixed(2)}
+                </span>
+              </div>
+            </div>
+          )}
+
           {error && (
             <div className="bg-crimson-900/50 border border-crimson-700 text-crimson-300 rounded-lg px-4 py-2 text-sm" data-testid="bet-error">
               {error}
@@ -196,7 +512,7 @@ export function BettingSlip({ raceId, horses }: BettingSlipProps) {
             <Button
               variant="primary"
               onClick={handleAddBet}
-              disabled={!selectedHorse || (betType === 'exacta' && !exactaHorse2)}
+              disabled={lines.length === 0}
               className="flex-1"
               data-testid="add-bet-button"
             >
@@ -206,7 +522,7 @@ export function BettingSlip({ raceId, horses }: BettingSlipProps) {
               variant="secondary"
               onClick={() => {
                 setBetAmount(ECONOMY_CONFIG.MIN_BET);
-                setExactaHorse2(null);
+                resetSelection();
                 setError('');
               }}
               data-testid="clear-bet-button"
@@ -216,21 +532,22 @@ export function BettingSlip({ raceId, horses }: BettingSlipProps) {
           </div>
         </div>
 
-        {currentBets.length > 0 && (
+        {raceBets.length > 0 && (
           <div className="mt-6 border-t border-slate-700 pt-4">
             <h4 className="text-sm font-semibold text-slate-400 mb-3">Current Bets</h4>
             <div className="space-y-2 max-h-48 overflow-y-auto">
-              {currentBets.map((bet) => (
+              {raceBets.map((bet) => (
                 <div
                   key={bet.id}
                   className="bg-slate-800 rounded-lg p-3 flex items-center justify-between"
                 >
                   <div className="flex-1">
                     <p className="text-white text-sm">
-                      {bet.type.toUpperCase()} - {formatOdds(bet.potentialPayout / bet.amount)}x
+                      {bet.eachWay ? `E/W ${bet.eachWay.part.toUpperCase()}` : BET_SELECTIONS[bet.type].label.toUpperCase()} @ {bet.mode === 'tote' ? 'Tote ~' : ''}{formatOdds(bet.odds, oddsFormat)} - {bet.amount} to return{' '}
+                      {bet.potentialPayout.toFixed(2)}
                     </p>
                     <p className="text-xs text-slate-400">
-                      {bet.horseIds.length === 2
+                      {bet.horseIds.length > 1
                         ? 'Horses: ' + bet.horseIds.join(', ')
                         : 'Horse: ' + bet.horseIds[0]}
                     </p>
@@ -242,8 +559,9 @@ export function BettingSlip({ raceId, horses }: BettingSlipProps) {
                     <Button
                       variant="secondary"
                       size="sm"
-                      onClick={() => handleRemoveBet(bet.id)}
-                      data-testid={`remove-bet-${bet.id}`}
+                      onClick={() => handleCancelBet(bet)}
+                      title="Cancel and refund"
+                      data-testid={`cancel-bet-${bet.id}`}
                     >
                       ✕
                     </Button>
@@ -254,7 +572,7 @@ export function BettingSlip({ raceId, horses }: BettingSlipProps) {
           </div>
         )}
 
-        {currentBets.length > 0 && (
+        {raceBets.length > 0 && (
           <div className="mt-4 bg-slate-800 rounded-lg p-4">
             <div className="grid grid-cols-2 gap-4 text-center">
               <div>
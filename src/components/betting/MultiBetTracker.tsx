@@ -0,0 +1,82 @@
+import { useMultiBetStore } from '@/stores/multiBetStore';
+import { useHorseStore } from '@/stores/horseStore';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { MULTI_BET_RULES } from '@/utils/multiBets';
+import { MultiBetLeg } from '@/types';
+
+const LEG_STATUS_LABELS: Record<MultiBetLeg['status'], string> = {
+  pending: 'Live',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+export function MultiBetTracker() {
+  const { multiBets, clearSettled } = useMultiBetStore();
+  const { getHorseById } = useHorseStore();
+
+  if (multiBets.length === 0) return null;
+
+  const hasSettled = multiBets.some((bet) => bet.status !== 'pending');
+
+  return (
+    <Card variant="elevated" data-testid="multi-bet-tracker">
+      <CardHeader className="flex items-center justify-between">
+        <CardTitle>Multi-Race Bets</CardTitle>
+        {hasSettled && (
+          <Button variant="secondary" size="sm" onClick={clearSettled} data-testid="clear-settled-multi-bets">
+            Clear settled
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {multiBets.map((bet) => {
+            const liveLegs = bet.legs.filter((leg) => leg.status === 'pending').length;
+
+            return (
+              <div key={bet.id} className="bg-slate-800 rounded-lg p-3" data-testid="multi-bet">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-white text-sm font-semibold">
+                    {MULTI_BET_RULES[bet.type].label} • {bet.lines} line{bet.lines === 1 ? '' : 's'} • Stake {bet.amount}
+                  </p>
+                  <Badge variant={bet.status === 'won' ? 'success' : bet.status === 'lost' ? 'danger' : 'default'}>
+                    {bet.status === 'pending' ? `${liveLegs} of ${bet.legs.length} live` : bet.status}
+                  </Badge>
+                </div>
+                <ol className="space-y-1">
+                  {bet.legs.map((leg) => (
+                    <li
+                      key={leg.raceId}
+                      className="flex items-center justify-between text-xs"
+                      data-testid="multi-bet-leg-status"
+                      data-status={leg.status}
+                    >
+                      <span className="text-slate-300">
+                        Race #{leg.raceId.slice(-4)}:{' '}
+                        {leg.horseIds.map((id) => getHorseById(id)?.name ?? id).join(', ')}
+                      </span>
+                      <span className={
+                        leg.status === 'won' ? 'text-turf-400' : leg.status === 'lost' ? 'text-crimson-400' : 'text-slate-400'
+                      }>
+                        {LEG_STATUS_LABELS[leg.status]}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+                <p className="text-xs text-slate-400 mt-2">
+                  {bet.status === 'won'
+                    ? `Returned ${bet.winnings.toFixed(2)}`
+                    : bet.status === 'lost'
+                      ? 'No return'
+                      : `Returns up to ${bet.potentialPayout.toFixed(2)}`}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,18 +1,84 @@
-import { Race, Horse } from '@/types';
+import { useEffect } from 'react';
+import { Race, Horse, RunningStyle } from '@/types';
 import { useGameStore } from '@/stores/gameStore';
+import { useOddsStore } from '@/stores/oddsStore';
+import { useToteStore } from '@/stores/toteStore';
+import { useMarketStore } from '@/stores/marketStore';
+import { useSettingsStore } from '@/stores/settingsStore';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Progress } from '@/components/ui/Progress';
 import { Badge } from '@/components/ui/Badge';
-import { calculateOdds, formatOdds } from '@/utils/oddsCalculator';
+import { Sparkline } from '@/components/ui/Sparkline';
+import { formatOdds } from '@/utils/oddsFormat';
+import { describeDrawBias, getGate, getTrack } from '@/utils/draw';
+import { formatTrip, isSuitedToTrip } from '@/utils/trip';
+import { describeGoing, getGoingIndex } from '@/utils/going';
+import { rateRunner } from '@/utils/ratedPerformance';
+import { getBookPrice } from '@/utils/book';
+import { getPriceMovement } from '@/utils/market';
+import { formatEachWayTerms, getEachWayTerms } from '@/utils/eachWay';
 import { BettingSlip } from '../betting/BettingSlip';
+import { ToteBoard } from './ToteBoard';
 
 interface FormProps {
   race: Race;
 }
 
+// Number of past runs shown in a horse's history
+const RECENT_RUNS = 3;
+
+const RUNNING_STYLE_LABELS: Record<RunningStyle, string> = {
+  'front-runner': 'Front-runner',
+  stalker: 'Stalker',
+  closer: 'Closer',
+};
+
+/**
+ * How a horse is expected to handle the ground, from its going multiplier
+ */
+function describeGoingSuitability(multiplier: number): string {
+  if (multiplier >= 1.05) return 'Loves the ground';
+  if (multiplier >= 0.97) return 'Acts on the ground';
+  return 'May not handle the ground';
+}
+
+/**
+ * Expected shape of the race from how many horses want to lead
+ */
+function describePace(horses: Horse[]): string {
+  const frontRunners = horses.filter((h) => h.runningStyle === 'front-runner').length;
+
+  if (frontRunners === 0) return 'No natural leader - a slow pace should suit those near the front';
+  if (frontRunners === 1) return 'A lone front-runner could dictate the pace';
+  if (frontRunners / horses.length >= 0.4) return 'Plenty of early speed - the pace should set up for closers';
+  return 'An even pace is expected';
+}
+
 export function Form({ race }: FormProps) {
   const { setCurrentScreen, selectedHorse, setSelectedHorse } = useGameStore();
+  const { probabilities, requestProbabilities, getBook, getWinOdds } = useOddsStore();
+  const simulated = probabilities[race.id];
+  const book = getBook(race);
+  const { totes, openPools } = useToteStore();
+  const tote = totes[race.id];
+  const { markets, catchUp } = useMarketStore();
+  const market = markets[race.id];
+  const { oddsFormat } = useSettingsStore();
+
+  useEffect(() => {
+    requestProbabilities(race);
+  }, [race, requestProbabilities]);
+
+  useEffect(() => {
+    openPools(race, book);
+  }, [race, book, openPools]);
+
+  // Prices move from when the race was put on the card; bring them up to
+  // date as the form opens
+  useEffect(() => {
+    catchUp(race, book);
+  }, [race, book, catchUp]);
 
   const handleHorseSelect = (horse: Horse) => {
     setSelectedHorse(horse);
@@ -26,6 +92,15 @@ export function Form({ race }: FormProps) {
     setCurrentScreen('lobby');
   };
 
+  const going = getGoingIndex(race.trackSurface, race.weather);
+  const eachWayTerms = getEachWayTerms(race);
+  const suitedCount = race.horses.filter((h) => isSuitedToTrip(h, race.distance)).length;
+
+  const styleCounts = (Object.keys(RUNNING_STYLE_LABELS) as RunningStyle[]).map((style) => ({
+    style,
+    count: race.horses.filter((h) => h.runningStyle === style).length,
+  }));
+
   return (
     <div className="space-y-6 pb-24">
       <div className="flex items-center justify-between">
@@ -34,7 +109,15 @@ export function Form({ race }: FormProps) {
             Race #{race.id.slice(-4)}
           </h2>
           <p className="text-slate-400 mt-1">
-            {race.distance}m • {race.trackSurface} • {race.weather}
+            {getTrack(race.track).name} • {race.distance}m • {race.trackSurface} • {race.weather}
+          </p>
+          <p className="text-sm text-slate-300 mt-1" data-testid="going">
+            Going: {describeGoing(going)} ({going.toFixed(1)})
+          </p>
+          <p className="text-xs text-slate-500 mt-1" data-testid="draw-bias">{describeDrawBias(race)}</p>
+          <p className="text-xs text-slate-500 mt-1" data-testid="each-way-terms">
+            {race.raceType === 'handicap' ? 'Handicap' : 'Stakes'} • {race.horses.length} runners •{' '}
+            {eachWayTerms ? `Each way ${formatEachWayTerms(eachWayTerms)}` : 'Win only'}
           </p>
         </div>
         <div className="flex gap-2">
@@ -47,9 +130,30 @@ export function Form({ race }: FormProps) {
         </div>
       </div>
 
+      <div className="bg-slate-800 rounded-lg p-3 text-sm" data-testid="pace-summary">
+        <p className="text-slate-300">
+          <span className="font-semibold text-white">Pace:</span>{' '}
+          {styleCounts.map(({ style, count }) => `${count} ${RUNNING_STYLE_LABELS[style].toLowerCase()}${count === 1 ? '' : 's'}`).join(' • ')}
+        </p>
+        <p className="text-slate-400 text-xs mt-1">{describePace(race.horses)}</p>
+        <p className="text-slate-400 text-xs mt-1" data-testid="trip-summary">
+          {suitedCount} of {race.horses.length} runners suited to {race.distance}m
+        </p>
+        <p className="text-slate-500 text-xs mt-1" data-testid="book-percentage">
+          Book {book.markets.win.bookPercentage.toFixed(1)}%
+          {simulated
+            ? ` • priced from ${simulated.simulations.toLocaleString()} simulated races${simulated.complete ? '' : ' (refining...)'}`
+            : ' • formula prices'}
+        </p>
+      </div>
+
+      {tote && <ToteBoard race={race} tote={tote} />}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 md:gap-4">
         {race.horses.map((horse) => {
-          const odds = calculateOdds(horse, race);
+          const odds = (market && getBookPrice(market.book, 'win', [horse.id])) ?? getWinOdds(horse, race);
+          const movement = market ? getPriceMovement(market, horse.id) : 0;
+          const chances = simulated?.runners[horse.id];
           const isSelected = selectedHorse?.id === horse.id;
 
           return (
@@ -68,18 +172,40 @@ export function Form({ race }: FormProps) {
                 <div className="flex items-start justify-between">
                   <div className="flex items-center gap-3">
                     <div
-                      className="w-12 h-12 rounded-full border-2 border-white/20"
+                      className="w-12 h-12 rounded-full border-2 border-white/20 flex items-center justify-center text-white font-bold text-lg"
                       style={{ backgroundColor: horse.color }}
-                    />
+                      title="Starting gate"
+                      data-testid="horse-gate"
+                    >
+                      {getGate(race, horse.id)}
+                    </div>
                     <div>
                       <CardTitle className="text-base md:text-lg" data-testid="horse-name">{horse.name}</CardTitle>
                       <p className="text-xs text-slate-400">
                         {horse.totalRaces} races • {Math.round(horse.winRate * 100)}% win rate
                       </p>
+                      <p
+                        className={`text-xs ${isSuitedToTrip(horse, race.distance) ? 'text-turf-400' : 'text-slate-500'}`}
+                        data-testid="trip-suitability"
+                      >
+                        Trip {formatTrip(horse.optimalTrip)}
+                        {isSuitedToTrip(horse, race.distance) ? ' • suited' : ' • out of trip'}
+                      </p>
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
-                    <Badge variant="gold" data-testid="odds-badge">{formatOdds(odds)}</Badge>
+                    <Badge variant="default" size="sm" data-testid="running-style-badge">
+                      {RUNNING_STYLE_LABELS[horse.runningStyle]}
+                    </Badge>
+                    {market && (
+                      <Sparkline
+                        values={market.history[horse.id] ?? []}
+                        className={movement < 0 ? 'text-turf-400' : 'text-crimson-400'}
+                        aria-label={`Price ${movement < 0 ? 'shortened' : 'drifted'} ${Math.abs(Math.round(movement * 100))}%`}
+                        data-testid="price-sparkline"
+                      />
+                    )}
+                    <Badge variant="gold" data-testid="odds-badge">{formatOdds(odds, oddsFormat)}</Badge>
                     {isSelected && (
                       <Badge variant="success" data-testid="selected-badge">Selected</Badge>
                     )}
@@ -127,7 +253,50 @@ export function Form({ race }: FormProps) {
                         <p className="text-xs text-slate-400">
                           Prefers: <span className="text-white capitalize">{horse.trackPreference}</span> track
                         </p>
+                        {chances && (
+                          <p className="text-xs text-slate-400" data-testid="simulated-chances">
+                            Win {Math.round(chances.win * 100)}% • Place {Math.round(chances.place * 100)}% •
+                            Show {Math.round(chances.show * 100)}%
+                          </p>
+                        )}
+                        <p className="text-xs text-slate-400" data-testid="going-suitability">
+                          {describeGoingSuitability(rateRunner(horse, race).going)}
+                        </p>
+                        <p className="text-xs text-slate-400">
+                          Drawn: <span className="text-white">gate {getGate(race, horse.id)}</span> of {race.horses.length}
+                        </p>
                       </div>
+
+                      {horse.raceHistory.length > 0 && (
+                        <div className="pt-2 border-t border-slate-700" data-testid="horse-history">
+                          <p className="text-xs font-semibold text-slate-300 mb-1">Recent Runs</p>
+                          <div className="space-y-2">
+                            {horse.raceHistory.slice(-RECENT_RUNS).reverse().map((result, index) => (
+                              <div key={index} className="text-xs text-slate-400">
+                                <div className="flex justify-between">
+                                  <span>
+                                    <span className="text-white font-semibold">#{result.position}</span>
+                                    {result.sectionals && (
+                                      <> • {result.sectionals.splits[result.sectionals.splits.length - 1]?.distance}m</>
+                                    )}
+                                    {' '}• {(result.time / 1000).toFixed(2)}s
+                                  </span>
+                                  {result.sectionals && (
+                                    <span className="font-mono" title="Running positions at 1/4, 1/2 and 3/4">
+                                      {result.sectionals.calls.map((call) => call.position).join('-')}
+                                    </span>
+                                  )}
+                                </div>
+                                {result.sectionals && (
+                                  <p className="font-mono text-slate-500 truncate">
+                                    {result.sectionals.splits.map((split) => (split.split / 1000).toFixed(2)).join(' / ')}
+                                  </p>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </>
                   ) : (
                     <div className="flex items-center justify-between">
@@ -148,7 +317,7 @@ export function Form({ race }: FormProps) {
         })}
       </div>
 
-      <BettingSlip raceId={race.id} horses={race.horses} />
+      <BettingSlip race={race} />
     </div>
   );
 }
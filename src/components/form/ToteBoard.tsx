@@ -0,0 +1,59 @@
+import { BetType, Race, Tote } from '@/types';
+import { getGate } from '@/utils/draw';
+import { getApproximateDividend } from '@/utils/tote';
+import { BET_SELECTIONS } from '@/utils/exotics';
+
+interface ToteBoardProps {
+  race: Race;
+  tote: Tote;
+}
+
+const SINGLE_POOLS: BetType[] = ['win', 'place', 'show'];
+
+export function ToteBoard({ race, tote }: ToteBoardProps) {
+  const formatDividend = (market: BetType, horseId: string) => {
+    const dividend = getApproximateDividend(tote, market, [horseId]);
+    return dividend ? dividend.toFixed(2) : '-';
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-3 text-sm" data-testid="tote-board">
+      <div className="flex flex-wrap gap-3 mb-2">
+        <span className="font-semibold text-white">Tote</span>
+        {(Object.keys(tote.pools) as BetType[]).map((market) => (
+          <span key={market} className="text-slate-400" data-testid={`tote-pool-${market}`}>
+            {BET_SELECTIONS[market].label}:{' '}
+            <span className="text-white font-mono">{Math.round(tote.pools[market].total).toLocaleString()}</span>
+          </span>
+        ))}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-slate-700">
+              <th className="text-left py-1 px-2 text-slate-400">Horse</th>
+              {SINGLE_POOLS.map((market) => (
+                <th key={market} className="text-right py-1 px-2 text-slate-400">{BET_SELECTIONS[market].label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {race.horses.map((horse) => (
+              <tr key={horse.id} className="border-b border-slate-700/50" data-testid="tote-runner">
+                <td className="py-1 px-2 text-white whitespace-nowrap">
+                  {getGate(race, horse.id)}. {horse.name}
+                </td>
+                {SINGLE_POOLS.map((market) => (
+                  <td key={market} className="py-1 px-2 text-right text-white font-mono" data-testid="tote-dividend">
+                    {formatDividend(market, horse.id)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-slate-500 text-xs mt-1">Approximate dividends per 1 staked, after takeout</p>
+    </div>
+  );
+}
@@ -1,18 +1,21 @@
 import { useRef, useEffect, useState } from 'react';
 import { Stage, Layer, Rect, Line } from 'react-konva';
-import { RaceEngine } from '@/game/engine/RaceEngine';
+import { RaceEngine, RaceFrame, HorsePosition } from '@/game/engine/RaceEngine';
 import { Race } from '@/types';
+import { getGate } from '@/utils/draw';
 import { HorseEmojiSprite } from './HorseEmojiSprite';
 
 interface RaceCanvasProps {
   raceEngine: RaceEngine | null;
   race?: Race;
+  // Render a recorded frame instead of following a live engine
+  frame?: RaceFrame | null;
 }
 
-export function RaceCanvas({ raceEngine, race }: RaceCanvasProps) {
+export function RaceCanvas({ raceEngine, race, frame }: RaceCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
-  const [positions, setPositions] = useState<Map<string, number>>(new Map());
+  const [positions, setPositions] = useState<Map<string, HorsePosition>>(new Map());
   const [finishedHorses, setFinishedHorses] = useState<Set<string>>(new Set());
   const animationRef = useRef<number | null>(null);
 
@@ -42,14 +45,14 @@ export function RaceCanvas({ raceEngine, race }: RaceCanvasProps) {
     const gameLoop = () => {
       if (!isRunning) return;
 
-      const currentPositions = raceEngine.getCurrentPositions();
+      const currentPositions = raceEngine.getInterpolatedPositions();
 
       if (currentPositions) {
-        const newPositions = new Map<string, number>();
+        const newPositions = new Map<string, HorsePosition>();
         const newFinished = new Set<string>();
 
         currentPositions.forEach((pos) => {
-          newPositions.set(pos.horseId, pos.position);
+          newPositions.set(pos.horseId, pos);
           if (pos.finished) {
             newFinished.add(pos.horseId);
           }
@@ -77,9 +80,17 @@ export function RaceCanvas({ raceEngine, race }: RaceCanvasProps) {
     };
   }, [raceEngine, race]);
 
+  const displayedPositions = frame
+    ? new Map(frame.positions.map((pos) => [pos.horseId, pos]))
+    : positions;
+  const displayedFinished = frame
+    ? new Set(frame.positions.filter((pos) => pos.finished).map((pos) => pos.horseId))
+    : finishedHorses;
+
   const headerFooterSpace = 150;
   const availableHeight = dimensions.height - headerFooterSpace;
-  const laneHeight = availableHeight / 6;
+  const laneCount = Math.max(6, race?.horses.length ?? 0);
+  const laneHeight = availableHeight / laneCount;
   const verticalPadding = Math.max(5, dimensions.height * 0.02);
   const horseScale = dimensions.width < 768 ? 0.75 :
                    dimensions.width < 1024 ? 0.85 : 1.0;
@@ -102,7 +113,7 @@ export function RaceCanvas({ raceEngine, race }: RaceCanvasProps) {
         </Layer>
 
         <Layer>
-          {Array.from({ length: 6 }).map((_, i) => (
+          {Array.from({ length: laneCount }).map((_, i) => (
             <Line
               key={`lane-${i}`}
               points={[0, verticalPadding + i * laneHeight, dimensions.width, verticalPadding + i * laneHeight]}
@@ -120,17 +131,21 @@ export function RaceCanvas({ raceEngine, race }: RaceCanvasProps) {
         </Layer>
 
         <Layer listening={false}>
-          {race?.horses.map((horse, index) => {
-            const position = positions.get(horse.id) || 0;
-            const isFinished = finishedHorses.has(horse.id);
+          {race?.horses.map((horse) => {
+            const gate = getGate(race, horse.id);
+            const horsePos = displayedPositions.get(horse.id);
+            const position = horsePos?.position || 0;
+            // Lanes are fractional mid-move, so horses glide between them
+            const lane = horsePos?.lane ?? gate - 1;
+            const isFinished = displayedFinished.has(horse.id);
 
             return (
               <HorseEmojiSprite
                 key={horse.id}
                 x={trackPadding + position * trackWidth}
-                y={verticalPadding + index * laneHeight + laneHeight / 2}
+                y={verticalPadding + lane * laneHeight + laneHeight / 2}
                 color={horse.color}
-                number={index + 1}
+                number={gate}
                 finished={isFinished}
                 emoji="🐎"
                 scale={horseScale}
@@ -1,23 +1,25 @@
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { Race } from '@/types';
 import { useGameStore } from '@/stores/gameStore';
 import { useHorseStore } from '@/stores/horseStore';
-import { generateUpcomingRaces } from '@/utils/raceScheduler';
+import { useScheduleStore } from '@/stores/scheduleStore';
 import { RaceCard } from './RaceCard';
+import { MultiBetBuilder } from './MultiBetBuilder';
+import { BetHistory } from '../betting/BetHistory';
+import { MultiBetTracker } from '../betting/MultiBetTracker';
 
 export function Lobby() {
   const { setCurrentScreen, setCurrentRace } = useGameStore();
-  const { getRaceHorses } = useHorseStore();
-  const [races, setRaces] = useState<Race[]>([]);
+  const { getRaceHorses, getHorseById } = useHorseStore();
+  const { races, fillSchedule } = useScheduleStore();
 
   useEffect(() => {
-    const horses = getRaceHorses(20);
-    const upcomingRaces = generateUpcomingRaces(horses, 5);
-    setRaces(upcomingRaces);
-  }, [getRaceHorses]);
+    fillSchedule(getRaceHorses(20));
+  }, [getRaceHorses, fillSchedule]);
 
   const handleSelectRace = (race: Race) => {
-    setCurrentRace(race);
+    // Races stay on the card across earlier races, so bring the runners' form up to date
+    setCurrentRace({ ...race, horses: race.horses.map((horse) => getHorseById(horse.id) ?? horse) });
     setCurrentScreen('form');
   };
 
@@ -57,6 +59,12 @@ export function Lobby() {
           </p>
         </div>
       )}
+
+      <MultiBetBuilder races={races} />
+
+      <MultiBetTracker />
+
+      <BetHistory />
     </div>
   );
 }
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { useMultiBetStore } from '@/stores/multiBetStore';
+import { useWalletStore } from '@/stores/walletStore';
+import { useOddsStore } from '@/stores/oddsStore';
+import { useMarketStore } from '@/stores/marketStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { getBookPrice } from '@/utils/book';
+import { formatOdds } from '@/utils/oddsFormat';
+import { getGate } from '@/utils/draw';
+import { MULTI_BET_RULES, countMultiLines, getMaxMultiplier } from '@/utils/multiBets';
+import { ECONOMY_CONFIG, MultiBetLeg, MultiBetType, ODDS_CONFIG, Race } from '@/types';
+
+interface MultiBetBuilderProps {
+  races: Race[];
+}
+
+export function MultiBetBuilder({ races }: MultiBetBuilderProps) {
+  const { placeMultiBet, validateMultiBet } = useMultiBetStore();
+  const { balance, updateBalance } = useWalletStore();
+  const { getBook } = useOddsStore();
+  const { markets } = useMarketStore();
+  const { oddsFormat } = useSettingsStore();
+  const [type, setType] = useState<MultiBetType>('daily-double');
+  const [startIndex, setStartIndex] = useState(0);
+  const [selections, setSelections] = useState<Record<string, string[]>>({});
+  const [stake, setStake] = useState<number>(ECONOMY_CONFIG.MIN_BET);
+  const [error, setError] = useState('');
+  const [placed, setPlaced] = useState('');
+
+  const rules = MULTI_BET_RULES[type];
+
+  // Pick bets run over the next races from the start; accumulators can take any
+  const legRaces = rules.consecutive ? races.slice(startIndex, startIndex + rules.minLegs) : races;
+
+  // Current win price, from the live market where one is open
+  const getPrice = (race: Race, horseId: string) =>
+    getBookPrice(markets[race.id]?.book ?? getBook(race), 'win', [horseId]) ?? ODDS_CONFIG.MAX_ODDS;
+
+  const legs: MultiBetLeg[] = legRaces
+    .filter((race) => rules.consecutive || (selections[race.id]?.length ?? 0) > 0)
+    .map((race) => {
+      const horseIds = selections[race.id] ?? [];
+      return {
+        raceId: race.id,
+        horseIds,
+        odds: Object.fromEntries(horseIds.map((id) => [id, getPrice(race, id)])),
+        status: 'pending',
+      };
+    });
+
+  const lines = countMultiLines(legs);
+  const amount = stake * lines;
+
+  const toggleHorse = (raceId: string, horseId: string) => {
+    setPlaced('');
+    setSelections((current) => {
+      const chosen = current[raceId] ?? [];
+      if (chosen.includes(horseId)) {
+        return { ...current, [raceId]: chosen.filter((id) => id !== horseId) };
+      }
+      return { ...current, [raceId]: rules.multipleSelections ? [...chosen, horseId] : [horseId] };
+    });
+  };
+
+  const handleTypeChange = (next: MultiBetType) => {
+    setType(next);
+    setStartIndex(0);
+    setSelections({});
+    setError('');
+  };
+
+  const handlePlace = () => {
+    const validation = validateMultiBet({ type, legs, amount }, balance, races.map((race) => race.id));
+    if (!validation.valid) {
+      setError(validation.error || 'Invalid bet');
+      return;
+    }
+
+    placeMultiBet({
+      type,
+      legs,
+      stake,
+      lines,
+      amount,
+      potentialPayout: stake * getMaxMultiplier(legs),
+    });
+    updateBalance(-amount);
+
+    setSelections({});
+    setError('');
+    setPlaced(`${rules.label} placed - ${lines} line${lines === 1 ? '' : 's'} for ${amount} credits`);
+  };
+
+  if (races.length < 2) return null;
+
+  return (
+    <Card variant="elevated" data-testid="multi-bet-builder">
+      <CardHeader>
+        <CardTitle>Multi-Race Bets</CardTitle>
+        <p className="text-sm text-slate-400 mt-1">
+          Find the winner of several races. Legs settle as each race is run.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2" data-testid="multi-bet-type-selector">
+            {(Object.keys(MULTI_BET_RULES) as MultiBetType[]).map((option) => (
+              <Button
+                key={option}
+                variant={type === option ? 'primary' : 'secondary'}
+                size="sm"
+                onClick={() => handleTypeChange(option)}
+                disabled={MULTI_BET_RULES[option].minLegs > races.length}
+                aria-pressed={type === option}
+                data-testid={`multi-bet-type-${option}`}
+              >
+                {MULTI_BET_RULES[option].label}
+              </Button>
+            ))}
+          </div>
+
+          {rules.consecutive && races.length > rules.minLegs && (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Starting with</label>
+              <select
+                value={startIndex}
+                onChange={(e) => {
+                  setStartIndex(Number(e.target.value));
+                  setSelections({});
+                }}
+                className="w-full bg-slate-700 text-white border border-slate-600 rounded-lg px-3 py-2"
+                data-testid="multi-bet-start-selector"
+              >
+                {races.slice(0, races.length - rules.minLegs + 1).map((race, i) => (
+                  <option key={race.id} value={i}>Race #{race.id.slice(-4)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {legRaces.map((race, i) => (
+              <div key={race.id} className="bg-slate-800 rounded-lg p-3" data-testid="multi-bet-leg">
+                <p className="text-sm text-white font-semibold mb-2">
+                  {rules.consecutive ? `Leg ${i + 1} • ` : ''}Race #{race.id.slice(-4)}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {race.horses.map((horse) => {
+                    const chosen = selections[race.id]?.includes(horse.id) ?? false;
+                    return (
+                      <Button
+                        key={horse.id}
+                        variant={chosen ? 'primary' : 'secondary'}
+                        size="sm"
+                        onClick={() => toggleHorse(race.id, horse.id)}
+                        aria-pressed={chosen}
+                        data-testid={`multi-bet-horse-${race.id}-${horse.id}`}
+                      >
+                        {getGate(race, horse.id)}. {horse.name} {formatOdds(getPrice(race, horse.id), oddsFormat)}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Stake per Line</label>
+            <input
+              type="number"
+              value={stake}
+              onChange={(e) => setStake(Math.max(ECONOMY_CONFIG.MIN_BET, Number(e.target.value) || ECONOMY_CONFIG.MIN_BET))}
+              min={ECONOMY_CONFIG.MIN_BET}
+              step={10}
+              className="w-full bg-slate-700 text-white border border-slate-600 rounded-lg px-3 py-2"
+              data-testid="multi-bet-stake-input"
+            />
+          </div>
+
+          <p className="text-sm text-slate-400" data-testid="multi-bet-cost">
+            {lines} line{lines === 1 ? '' : 's'} × {stake} ={' '}
+            <span className="text-white font-semibold">{amount} credits</span>
+            {lines > 0 && <> • returns up to {(stake * getMaxMultiplier(legs)).toFixed(2)} credits</>}
+          </p>
+
+          {error && (
+            <div className="bg-crimson-900/50 border border-crimson-700 text-crimson-300 rounded-lg px-4 py-2 text-sm" data-testid="multi-bet-error">
+              {error}
+            </div>
+          )}
+          {placed && (
+            <p className="text-sm text-turf-400" data-testid="multi-bet-placed">{placed}</p>
+          )}
+
+          <Button
+            variant="primary"
+            onClick={handlePlace}
+            disabled={lines === 0}
+            className="w-full"
+            data-testid="place-multi-bet-button"
+          >
+            Place {rules.label}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
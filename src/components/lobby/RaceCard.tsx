@@ -1,9 +1,14 @@
 import { useState, useEffect } from 'react';
-import { Race } from '@/types';
+import { BookPrice, Race } from '@/types';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
 import { formatTimeRemaining, getRaceConditionsDescription } from '@/utils/raceScheduler';
+import { describeDrawBias, getGate, getTrack } from '@/utils/draw';
+import { describeGoing, getGoingIndex } from '@/utils/going';
+import { formatOdds } from '@/utils/oddsFormat';
+import { useOddsStore } from '@/stores/oddsStore';
+import { useSettingsStore } from '@/stores/settingsStore';
 
 interface RaceCardProps {
   race: Race;
@@ -11,6 +16,17 @@ interface RaceCardProps {
 }
 
 export function RaceCard({ race, onSelect }: RaceCardProps) {
+  const runnersByGate = [...race.horses].sort((a, b) => getGate(race, a.id) - getGate(race, b.id));
+  const { getBook } = useOddsStore();
+  const { oddsFormat } = useSettingsStore();
+
+  // Shortest price in the win market
+  const favourite = getBook(race).markets.win.prices.reduce<BookPrice | null>(
+    (shortest, price) => (!shortest || price.odds < shortest.odds ? price : shortest),
+    null
+  );
+  const favouriteHorse = favourite && race.horses.find((h) => h.id === favourite.horseIds[0]);
+
   const [timeUntil, setTimeUntil] = useState(Math.max(0, race.startTime - Date.now()));
   const [isReady, setIsReady] = useState(Date.now() >= race.startTime);
 
@@ -40,8 +56,11 @@ export function RaceCard({ race, onSelect }: RaceCardProps) {
       <CardHeader className="flex items-start justify-between">
         <div>
           <CardTitle className="text-turf-400">Race #{race.id.slice(-4)}</CardTitle>
+          <p className="text-sm text-slate-300 mt-1" data-testid="race-track">
+            {getTrack(race.track).name} • {describeDrawBias(race)}
+          </p>
           <p className="text-sm text-slate-400 mt-1">
-            {getRaceConditionsDescription(race)}
+            {getRaceConditionsDescription(race)} • {describeGoing(getGoingIndex(race.trackSurface, race.weather))}
           </p>
         </div>
         <Badge variant={isReady ? 'success' : 'default'}>
@@ -50,11 +69,34 @@ export function RaceCard({ race, onSelect }: RaceCardProps) {
       </CardHeader>
       
       <CardContent>
+        <div className="flex flex-wrap gap-1 mb-3" data-testid="race-draw">
+          {runnersByGate.map((horse) => (
+            <span
+              key={horse.id}
+              className="inline-flex items-center gap-1 text-xs text-slate-300 bg-slate-800 rounded px-1.5 py-0.5"
+              title={horse.name}
+            >
+              <span
+                className="w-4 h-4 rounded-full border border-white/40 text-[10px] text-white font-bold flex items-center justify-center"
+                style={{ backgroundColor: horse.color }}
+              >
+                {getGate(race, horse.id)}
+              </span>
+              <span className="truncate max-w-[6rem]">{horse.name}</span>
+            </span>
+          ))}
+        </div>
         <div className="flex items-center justify-between">
           <div>
             <p className="text-sm text-slate-400">
               <span className="text-white font-medium">{race.horses.length}</span> horses
             </p>
+            {favourite && favouriteHorse && (
+              <p className="text-xs text-slate-400 mt-1" data-testid="race-favourite">
+                Fav: <span className="text-white">{favouriteHorse.name}</span>{' '}
+                <span className="text-gold-400 font-mono">{formatOdds(favourite.odds, oddsFormat)}</span>
+              </p>
+            )}
             <p className="text-xs text-slate-500 mt-1">
               {isReady ? (
                 <span className="text-turf-400">Ready to start!</span>
@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react';
+import { Stage, Layer, Rect, Line, Text } from 'react-konva';
+import { Race } from '@/types';
+import { useGameStore } from '@/stores/gameStore';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Card, CardContent } from '@/components/ui/Card';
+import { HorseEmojiSprite } from '@/components/game/HorseEmojiSprite';
+import { formatMargin, metresToLengths } from '@/utils/margins';
+import { getGate } from '@/utils/draw';
+
+interface PhotoFinishViewProps {
+  race: Race;
+}
+
+// Lengths of track shown behind the finish line in the zoomed photo
+const PHOTO_WINDOW_LENGTHS = 4;
+const PHOTO_HEIGHT = 360;
+
+export function PhotoFinishView({ race }: PhotoFinishViewProps) {
+  const { photoFinish, setCurrentScreen } = useGameStore();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(800);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const resizeObserver = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        if (entry.contentRect.width > 0) {
+          setWidth(entry.contentRect.width);
+        }
+      }
+    });
+
+    resizeObserver.observe(containerRef.current);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  const handleContinue = () => {
+    setCurrentScreen('results');
+  };
+
+  if (!photoFinish || !race.results) {
+    return (
+      <div className="text-center py-20">
+        <h2 className="font-display text-4xl font-bold mb-4">Photo Finish</h2>
+        <p className="text-slate-400 text-lg">No photo was called for this race</p>
+        <Button variant="primary" onClick={handleContinue} className="mt-8">
+          View Results
+        </Button>
+      </div>
+    );
+  }
+
+  const getHorse = (horseId: string) => race.horses.find((h) => h.id === horseId);
+  const involved = race.results.filter((r) => photoFinish.horseIds.includes(r.horseId));
+  const winners = involved.filter((r) => r.position === 1);
+
+  const verdict = photoFinish.deadHeat && winners.length > 1
+    ? `Dead heat for 1st between ${winners.map((r) => getHorse(r.horseId)?.name).join(' and ')}`
+    : `${getHorse(involved[0].horseId)?.name} wins by a ${formatMargin(involved[1].margin)}`;
+
+  // Zoomed view: the finish line sits near the right edge
+  const laneHeight = PHOTO_HEIGHT / Math.max(1, race.horses.length);
+  const finishX = width - 60;
+  const pixelsPerLength = (finishX - 20) / PHOTO_WINDOW_LENGTHS;
+
+  const toX = (position: number) => {
+    const lengthsBehind = metresToLengths((1 - position) * race.distance);
+    return finishX - lengthsBehind * pixelsPerLength;
+  };
+
+  return (
+    <div className="space-y-6 pb-24">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-display text-2xl md:text-3xl font-bold text-white" data-testid="photo-finish-title">
+            Photo Finish - Race #{race.id.slice(-4)}
+          </h2>
+          <p className="text-slate-400 mt-1">
+            Finish line at {(photoFinish.time / 1000).toFixed(3)}s
+          </p>
+        </div>
+        <Button variant="primary" onClick={handleContinue} data-testid="photo-finish-continue-button">
+          View Results
+        </Button>
+      </div>
+
+      <Card variant="elevated">
+        <CardContent>
+          <div ref={containerRef} className="w-full" data-testid="photo-finish-canvas">
+            <Stage width={width} height={PHOTO_HEIGHT}>
+              <Layer listening={false}>
+                <Rect x={0} y={0} width={width} height={PHOTO_HEIGHT} fill="#1a1a2e" />
+
+                {Array.from({ length: PHOTO_WINDOW_LENGTHS + 1 }).map((_, i) => (
+                  <Line
+                    key={`length-${i}`}
+                    points={[finishX - i * pixelsPerLength, 0, finishX - i * pixelsPerLength, PHOTO_HEIGHT]}
+                    stroke="#ffffff"
+                    strokeWidth={1}
+                    dash={[4, 6]}
+                    opacity={0.2}
+                  />
+                ))}
+
+                <Line points={[finishX, 0, finishX, PHOTO_HEIGHT]} stroke="#ffd700" strokeWidth={2} />
+
+                {race.horses.map((horse) => {
+                  const gate = getGate(race, horse.id);
+                  const snapshot = photoFinish.positions.find((p) => p.horseId === horse.id);
+                  const x = Math.max(0, toX(snapshot?.position ?? 0));
+                  const y = (gate - 1) * laneHeight + laneHeight / 2;
+                  const isInvolved = photoFinish.horseIds.includes(horse.id);
+
+                  return (
+                    <HorseEmojiSprite
+                      key={horse.id}
+                      x={x - 20}
+                      y={y}
+                      color={horse.color}
+                      number={gate}
+                      finished={!isInvolved}
+                      emoji="🐎"
+                    />
+                  );
+                })}
+
+                {race.horses.map((horse) => {
+                  const lane = getGate(race, horse.id) - 1;
+                  const snapshot = photoFinish.positions.find((p) => p.horseId === horse.id);
+                  const x = Math.max(0, toX(snapshot?.position ?? 0));
+
+                  return (
+                    <Line
+                      key={`nose-${horse.id}`}
+                      points={[x, lane * laneHeight + 4, x, (lane + 1) * laneHeight - 4]}
+                      stroke={horse.color}
+                      strokeWidth={2}
+                    />
+                  );
+                })}
+
+                <Text text="FINISH" x={finishX + 6} y={8} fontSize={12} fontStyle="bold" fill="#ffd700" />
+              </Layer>
+            </Stage>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card variant="elevated" className="border-gold-500 border-2">
+        <CardContent>
+          <div className="flex items-center gap-3 mb-4">
+            <h3 className="text-xl font-bold text-white">Judge&apos;s Verdict</h3>
+            {photoFinish.deadHeat && <Badge variant="gold" data-testid="dead-heat-badge">Dead Heat</Badge>}
+          </div>
+          <p className="text-lg text-gold-400 mb-4" data-testid="photo-finish-verdict">{verdict}</p>
+          <div className="space-y-2">
+            {involved.map((result) => (
+              <div key={result.horseId} className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant="default">{result.position}</Badge>
+                  <span className="text-white">{getHorse(result.horseId)?.name}</span>
+                </div>
+                <span className="text-slate-400">
+                  {result.deadHeat ? 'dead heat' : formatMargin(result.margin)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Race } from '@/types';
+import { useBettingStore } from '@/stores/bettingStore';
+import { useWalletStore } from '@/stores/walletStore';
+import { Button } from '@/components/ui/Button';
+import { BET_SELECTIONS } from '@/utils/exotics';
+import { getCashOutOffer, isCashOutAvailable } from '@/utils/cashOut';
+
+interface CashOutPanelProps {
+  race: Race;
+  win: Record<string, number>; // Live win probabilities by horse id
+  suspended: boolean;
+}
+
+export function CashOutPanel({ race, win, suspended }: CashOutPanelProps) {
+  const { currentBets, cashOutBet } = useBettingStore();
+  const { updateBalance } = useWalletStore();
+
+  const pendingBets = currentBets.filter((bet) => bet.raceId === race.id && isCashOutAvailable(bet));
+  if (pendingBets.length === 0) return null;
+  const getHorseName = (horseId: string) => race.horses.find((h) => h.id === horseId)?.name ?? horseId;
+
+  const handleCashOut = (betId: string, offer: number) => {
+    if (cashOutBet(betId, offer)) {
+      updateBalance(offer);
+    }
+  };
+
+  return (
+    <div
+      className="absolute top-2 right-2 z-10 w-64 max-h-[70%] overflow-y-auto bg-slate-900/90 backdrop-blur-sm border border-slate-700 rounded-lg p-3 space-y-2"
+      data-testid="cash-out-panel"
+    >
+      <p className="text-sm font-semibold text-white">Cash Out</p>
+      {pendingBets.map((bet) => {
+        const offer = getCashOutOffer(bet, win);
+
+        return (
+          <div key={bet.id} className="flex items-center justify-between gap-2 text-xs" data-testid="cash-out-offer">
+            <div className="min-w-0">
+              <p className="text-white truncate">
+                {bet.eachWay ? `E/W ${bet.eachWay.part}` : BET_SELECTIONS[bet.type].label} •{' '}
+                {bet.horseIds.map(getHorseName).join(', ')}
+              </p>
+              <p className="text-slate-400">Stake {bet.amount} • returns {bet.potentialPayout.toFixed(2)}</p>
+            </div>
+            <Button
+              variant="gold"
+              size="sm"
+              onClick={() => handleCashOut(bet.id, offer)}
+              disabled={suspended || offer <= 0}
+              data-testid={`cash-out-${bet.id}`}
+            >
+              {suspended ? 'Suspended' : offer.toFixed(2)}
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { ECONOMY_CONFIG, Race } from '@/types';
+import { RaceSnapshot } from '@/game/engine/RaceEngine';
+import { useBettingStore } from '@/stores/bettingStore';
+import { useWalletStore } from '@/stores/walletStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { Button } from '@/components/ui/Button';
+import { formatOdds } from '@/utils/oddsFormat';
+import { isInPlaySuspended, priceInPlay } from '@/utils/inPlay';
+
+interface InPlayPanelProps {
+  race: Race;
+  snapshot: RaceSnapshot;
+  win: Record<string, number>; // Live win probabilities by horse id
+}
+
+export function InPlayPanel({ race, snapshot, win }: InPlayPanelProps) {
+  const { addBet, validateBet } = useBettingStore();
+  const { balance, updateBalance } = useWalletStore();
+  const { oddsFormat } = useSettingsStore();
+  const [stake, setStake] = useState<number>(ECONOMY_CONFIG.MIN_BET);
+  const [message, setMessage] = useState('');
+
+  const suspended = isInPlaySuspended(snapshot);
+  const prices = [...priceInPlay(win).prices].sort((a, b) => a.odds - b.odds);
+  const getHorseName = (horseId: string) => race.horses.find((h) => h.id === horseId)?.name ?? horseId;
+
+  const handleBack = (horseId: string, odds: number) => {
+    const bet = {
+      raceId: race.id,
+      type: 'win' as const,
+      mode: 'fixed' as const,
+      horseIds: [horseId],
+      amount: stake,
+      odds,
+      potentialPayout: odds * stake,
+      winnings: 0,
+      status: 'pending' as const,
+      // Struck after the off, so it can't be cancelled
+      lockedAt: Date.now(),
+      inPlayProgress: snapshot.progress,
+    };
+
+    const validation = validateBet(bet, balance);
+    if (!validation.valid) {
+      setMessage(validation.error || 'Invalid bet');
+      return;
+    }
+
+    addBet(bet);
+    updateBalance(-stake);
+    setMessage(`${getHorseName(horseId)} backed at ${formatOdds(odds, oddsFormat)}`);
+  };
+
+  return (
+    <div
+      className="absolute top-2 left-2 z-10 w-56 bg-slate-900/90 backdrop-blur-sm border border-slate-700 rounded-lg p-3 space-y-2"
+      data-testid="in-play-panel"
+    >
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold text-white">In-Play Win</p>
+        <span className={`text-xs ${suspended ? 'text-crimson-400' : 'text-turf-400'}`} data-testid="in-play-status">
+          {suspended ? 'Suspended' : 'Open'}
+        </span>
+      </div>
+      <input
+        type="number"
+        value={stake}
+        onChange={(e) => setStake(Math.max(ECONOMY_CONFIG.MIN_BET, Number(e.target.value) || ECONOMY_CONFIG.MIN_BET))}
+        min={ECONOMY_CONFIG.MIN_BET}
+        step={10}
+        disabled={suspended}
+        aria-label="In-play stake"
+        className="w-full bg-slate-700 text-white border border-slate-600 rounded px-2 py-1 text-xs"
+        data-testid="in-play-stake-input"
+      />
+      <div className="space-y-1">
+        {prices.map(({ horseIds: [horseId], odds }) => (
+          <div key={horseId} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-slate-300 truncate">{getHorseName(horseId)}</span>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => handleBack(horseId, odds)}
+              disabled={suspended}
+              data-testid={`in-play-price-${horseId}`}
+            >
+              {formatOdds(odds, oddsFormat)}
+            </Button>
+          </div>
+        ))}
+      </div>
+      {message && <p className="text-xs text-slate-400" data-testid="in-play-message">{message}</p>}
+    </div>
+  );
+}
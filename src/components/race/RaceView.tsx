@@ -1,11 +1,20 @@
-import { useEffect, useState, useRef } from 'react';
-import { Race } from '@/types';
+import { useEffect, useMemo, useState, useRef } from 'react';
+import { Race, IN_PLAY_CONFIG } from '@/types';
 import { useGameStore } from '@/stores/gameStore';
 import { useHorseStore } from '@/stores/horseStore';
 import { useBettingStore } from '@/stores/bettingStore';
 import { useWalletStore } from '@/stores/walletStore';
-import { RaceEngine } from '@/game/engine/RaceEngine';
+import { useToteStore } from '@/stores/toteStore';
+import { useMultiBetStore } from '@/stores/multiBetStore';
+import { useScheduleStore } from '@/stores/scheduleStore';
+import { useOddsStore } from '@/stores/oddsStore';
+import { useMarketStore } from '@/stores/marketStore';
+import { RaceEngine, RaceSnapshot } from '@/game/engine/RaceEngine';
+import { replaysStorage } from '@/utils/localStorage';
 import { RaceCanvas } from '../game/RaceCanvas';
+import { CashOutPanel } from './CashOutPanel';
+import { InPlayPanel } from './InPlayPanel';
+import { getFairWinProbabilities, getLiveWinProbabilities, isCashOutSuspended } from '@/utils/cashOut';
 import { Button } from '../ui/Button';
 import { Progress } from '../ui/Progress';
 import { Badge } from '../ui/Badge';
@@ -14,27 +23,55 @@ interface RaceViewProps {
   race: Race;
 }
 
+const SPEED_OPTIONS = [0.5, 1, 2, 4];
+
 export function RaceView({ race }: RaceViewProps) {
-  const { setCurrentScreen, updateRaceResults } = useGameStore();
+  const { setCurrentScreen, updateRaceResults, setPhotoFinish } = useGameStore();
   const { updateHorseStats } = useHorseStore();
-  const { settleBets } = useBettingStore();
+  const { settleBets, lockBets } = useBettingStore();
   const { updateBalance } = useWalletStore();
+  const { declare } = useToteStore();
+  const { settleRace } = useMultiBetStore();
+  const { completeRace } = useScheduleStore();
+  const { getBook } = useOddsStore();
+  const { markets, closeMarket } = useMarketStore();
   
   const [raceEngine, setRaceEngine] = useState<RaceEngine | null>(null);
   const [raceProgress, setRaceProgress] = useState(0);
   const [isRunning, setIsRunning] = useState(false);
   const [isFinished, setIsFinished] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [speed, setSpeed] = useState(1);
   const canvasRef = useRef<HTMLDivElement>(null);
+  // Race state in-play prices and cash-out offers come from, refreshed every few frames
+  const [snapshot, setSnapshot] = useState<RaceSnapshot | null>(null);
+  const lastSnapshotTime = useRef(-Infinity);
+
+  // Live win chances, from the prices the pre-race market closed at
+  const book = markets[race.id]?.book ?? getBook(race);
+  const prior = useMemo(() => getFairWinProbabilities(book), [book]);
+  const liveWin = useMemo(
+    () => (snapshot ? getLiveWinProbabilities(snapshot.positions, prior) : null),
+    [snapshot, prior]
+  );
 
   useEffect(() => {
     if (!race) return;
 
+    lastSnapshotTime.current = -Infinity;
+    setSnapshot(null);
+
     // Initialize race engine
     const engine = new RaceEngine(
       race,
       (frame) => {
         // Update race progress
         setRaceProgress(frame.positions[0]?.position || 0);
+
+        if (frame.time - lastSnapshotTime.current >= IN_PLAY_CONFIG.UPDATE_MS) {
+          lastSnapshotTime.current = frame.time;
+          setSnapshot(engine.getSnapshot());
+        }
       },
       (results) => {
         // Race finished
@@ -43,21 +80,42 @@ export function RaceView({ race }: RaceViewProps) {
 
         // Update horse stats
         results.forEach(result => {
-          updateHorseStats(result.horseId, result.position);
+          updateHorseStats(result);
         });
 
-        // Settle bets and calculate winnings
-        const bettingResult = settleBets(results);
+        // Close the tote and settle bets, tote bets at the declared dividends
+        const dividends = declare(race.id, results);
+        const bettingResult = settleBets(race.id, results, dividends);
+
+        // Settle any multi-race legs run here; bets it completes pay out now
+        const multiResult = settleRace(race.id, results);
+        completeRace(race.id);
 
         // Update wallet with winnings
-        updateBalance(bettingResult.totalWinnings);
+        updateBalance(bettingResult.totalWinnings + multiResult.totalWinnings);
 
         // Store results in gameStore
         updateRaceResults(results);
 
+        // Keep the seed and field so the race can be replayed frame for frame
+        replaysStorage.add({
+          raceId: race.id,
+          race: {
+            ...race,
+            horses: race.horses.map(horse => ({ ...horse, raceHistory: [] })),
+            status: 'completed',
+            results,
+          },
+          recordedAt: Date.now(),
+        });
+
+        // Close finishes go to the judge before the result is shown
+        const photoFinish = engine.getPhotoFinish();
+        setPhotoFinish(photoFinish);
+
         // Go to results after a delay
         setTimeout(() => {
-          setCurrentScreen('results');
+          setCurrentScreen(photoFinish ? 'photo-finish' : 'results');
         }, 2000);
       }
     );
@@ -67,16 +125,55 @@ export function RaceView({ race }: RaceViewProps) {
     return () => {
       // Cleanup
     };
-    }, [race, setCurrentScreen, updateHorseStats, updateRaceResults, settleBets, updateBalance]);
+    }, [race, setCurrentScreen, updateHorseStats, updateRaceResults, setPhotoFinish, settleBets, updateBalance, declare, settleRace, completeRace]);
+
+  // Pause automatically when the player switches away mid-race
+  useEffect(() => {
+    if (!raceEngine || !isRunning) return;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        raceEngine.pause();
+        setIsPaused(true);
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [raceEngine, isRunning]);
 
   const handleStartRace = () => {
     if (raceEngine && !isRunning) {
+      // No more cancellations once the race is off, and the market's
+      // prices now stand as the starting prices
+      lockBets(race.id);
+      closeMarket(race, getBook(race));
+      raceEngine.setSpeed(speed);
       raceEngine.start();
       setIsRunning(true);
     }
   };
 
+  const handleTogglePause = () => {
+    if (!raceEngine) return;
+
+    if (isPaused) {
+      raceEngine.resume();
+    } else {
+      raceEngine.pause();
+    }
+    setIsPaused(raceEngine.getIsPaused());
+  };
+
+  const handleSpeedChange = (multiplier: number) => {
+    raceEngine?.setSpeed(multiplier);
+    setSpeed(multiplier);
+  };
+
   const handleBack = () => {
+    // Once the race is off its bets are locked until it finishes and settles
+    if (isRunning) return;
+
     if (raceEngine) {
       raceEngine.stop();
     }
@@ -102,16 +199,26 @@ export function RaceView({ race }: RaceViewProps) {
                 Start Race
               </Button>
             )}
-            {isRunning && (
+            {isRunning && !isPaused && (
               <div className="flex items-center gap-2 text-turf-400" data-testid="racing-indicator">
                 <div className="animate-spin h-5 w-5 border-2 border-turf-400 border-t-transparent rounded-full" />
                 <span>Racing...</span>
               </div>
             )}
+            {isRunning && (
+              <Button
+                variant="secondary"
+                onClick={handleTogglePause}
+                aria-pressed={isPaused}
+                data-testid="pause-resume-button"
+              >
+                {isPaused ? 'Resume' : 'Pause'}
+              </Button>
+            )}
             {isFinished && (
               <Badge variant="success" data-testid="finished-badge">Finished!</Badge>
             )}
-            <Button variant="secondary" onClick={handleBack} data-testid="back-button">
+            <Button variant="secondary" onClick={handleBack} disabled={isRunning} data-testid="back-button">
               ← Back
             </Button>
           </div>
@@ -126,6 +233,20 @@ export function RaceView({ race }: RaceViewProps) {
             <div className="flex-1">
               <Progress value={raceProgress * 100} max={100} variant="turf" showLabel data-testid="progress-bar" />
             </div>
+            <div className="flex gap-1" role="group" aria-label="Race speed">
+              {SPEED_OPTIONS.map((option) => (
+                <Button
+                  key={option}
+                  variant={speed === option ? 'gold' : 'ghost'}
+                  size="sm"
+                  onClick={() => handleSpeedChange(option)}
+                  aria-pressed={speed === option}
+                  data-testid={`race-speed-${option}`}
+                >
+                  {option}x
+                </Button>
+              ))}
+            </div>
           </div>
         </div>
       </div>
@@ -137,6 +258,12 @@ export function RaceView({ race }: RaceViewProps) {
           race={race}
           data-testid="race-canvas"
         />
+        {isRunning && snapshot && liveWin && (
+          <>
+            <InPlayPanel race={race} snapshot={snapshot} win={liveWin} />
+            <CashOutPanel race={race} win={liveWin} suspended={isCashOutSuspended(snapshot.positions)} />
+          </>
+        )}
       </div>
 
       {/* Race Info Footer */}
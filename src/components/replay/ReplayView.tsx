@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useGameStore } from '@/stores/gameStore';
+import { RaceEngine, RaceFrame, SIMULATION_TIMESTEP_MS } from '@/game/engine/RaceEngine';
+import { replaysStorage } from '@/utils/localStorage';
+import { RaceCanvas } from '../game/RaceCanvas';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Frame at a point in race time, interpolated between simulated frames
+ * so slow playback stays smooth
+ */
+function getFrameAt(frames: RaceFrame[], time: number): RaceFrame | null {
+  if (frames.length === 0) return null;
+
+  const index = Math.min(frames.length - 1, Math.max(0, Math.ceil(time / SIMULATION_TIMESTEP_MS) - 1));
+  const current = frames[index];
+  const previous = frames[index - 1];
+  if (!previous) return current;
+
+  const alpha = Math.min(1, Math.max(0, (time - previous.time) / (current.time - previous.time)));
+
+  return {
+    ...current,
+    positions: current.positions.map((pos) => {
+      const before = previous.positions.find((p) => p.horseId === pos.horseId);
+      if (!before || pos.finished) return pos;
+      return {
+        ...pos,
+        position: before.position + (pos.position - before.position) * alpha,
+        lane: before.lane + (pos.lane - before.lane) * alpha,
+      };
+    }),
+  };
+}
+
+export function ReplayView() {
+  const { replay, closeReplay } = useGameStore();
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  const recorded = useMemo(() => (replay ? replaysStorage.find(replay.raceId) : undefined), [replay]);
+
+  // Re-run the deterministic simulation from the recorded seed and field
+  const simulation = useMemo(() => {
+    if (!recorded) return null;
+
+    const engine = new RaceEngine(recorded.race);
+    const results = engine.runToCompletion();
+    const matches = JSON.stringify(results) === JSON.stringify(recorded.race.results);
+
+    return { frames: engine.getFrames(), results, matches };
+  }, [recorded]);
+
+  const frames = useMemo(() => simulation?.frames ?? [], [simulation]);
+  const duration = frames.length > 0 ? frames[frames.length - 1].time : 0;
+  const finishTime = simulation?.results[0]?.time ?? duration;
+
+  useEffect(() => {
+    if (!isPlaying || duration === 0) return;
+
+    let lastTimestamp: number | null = null;
+    let animationFrame: number;
+
+    const tick = (timestamp: number) => {
+      const elapsed = lastTimestamp === null ? 0 : timestamp - lastTimestamp;
+      lastTimestamp = timestamp;
+
+      setPlayhead((current) => Math.min(duration, current + elapsed * speed));
+      animationFrame = requestAnimationFrame(tick);
+    };
+
+    animationFrame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animationFrame);
+  }, [isPlaying, speed, duration]);
+
+  useEffect(() => {
+    if (duration > 0 && playhead >= duration) {
+      setIsPlaying(false);
+    }
+  }, [playhead, duration]);
+
+  const frame = useMemo(() => getFrameAt(frames, playhead), [frames, playhead]);
+
+  const handlePlayPause = () => {
+    if (!isPlaying && playhead >= duration) {
+      setPlayhead(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleJumpToFinish = () => {
+    setIsPlaying(false);
+    setPlayhead(finishTime);
+  };
+
+  if (!recorded || !simulation) {
+    return (
+      <div className="text-center py-20">
+        <h2 className="font-display text-4xl font-bold mb-4">Replay</h2>
+        <p className="text-slate-400 text-lg">This replay is no longer available</p>
+        <Button variant="primary" onClick={closeReplay} className="mt-8" data-testid="back-button">
+          ← Back
+        </Button>
+      </div>
+    );
+  }
+
+  const race = recorded.race;
+
+  return (
+    <div className="flex flex-col h-screen">
+      <div className="bg-slate-900 border-b border-slate-800 p-3 md:p-4">
+        <div className="container mx-auto flex items-center justify-between">
+          <div>
+            <h2 className="font-display text-xl md:text-2xl font-bold text-white" data-testid="replay-title">
+              Replay - Race #{race.id.slice(-4)}
+            </h2>
+            <p className="text-sm text-slate-400">
+              {race.distance}m • {race.trackSurface} • {race.weather}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {!simulation.matches && (
+              <Badge variant="warning" data-testid="replay-mismatch">Recorded on an older engine</Badge>
+            )}
+            <Button variant="secondary" onClick={closeReplay} data-testid="back-button">
+              ← Back
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-slate-800 border-b border-slate-700 p-2 md:p-3">
+        <div className="container mx-auto flex flex-wrap items-center gap-3">
+          <Button variant="primary" size="sm" onClick={handlePlayPause} data-testid="replay-play-pause">
+            {isPlaying ? 'Pause' : 'Play'}
+          </Button>
+
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={SIMULATION_TIMESTEP_MS}
+            value={playhead}
+            onChange={(e) => {
+              setIsPlaying(false);
+              setPlayhead(Number(e.target.value));
+            }}
+            className="flex-1 min-w-[120px] accent-turf-500"
+            aria-label="Replay position"
+            data-testid="replay-timeline"
+          />
+
+          <span className="text-sm text-slate-300 font-mono w-24 text-right">
+            {(playhead / 1000).toFixed(2)}s / {(duration / 1000).toFixed(2)}s
+          </span>
+
+          <div className="flex gap-1" role="group" aria-label="Playback speed">
+            {PLAYBACK_SPEEDS.map((option) => (
+              <Button
+                key={option}
+                variant={speed === option ? 'gold' : 'ghost'}
+                size="sm"
+                onClick={() => setSpeed(option)}
+                aria-pressed={speed === option}
+                data-testid={`replay-speed-${option}`}
+              >
+                {option}x
+              </Button>
+            ))}
+          </div>
+
+          <Button variant="secondary" size="sm" onClick={handleJumpToFinish} data-testid="replay-jump-to-finish">
+            Jump to Finish
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 relative">
+        <RaceCanvas raceEngine={null} race={race} frame={frame} />
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,43 @@
 import { Race } from '@/types';
 import { useGameStore } from '@/stores/gameStore';
 import { useBettingStore } from '@/stores/bettingStore';
+import { useOddsStore } from '@/stores/oddsStore';
+import { useMarketStore } from '@/stores/marketStore';
+import { useSettingsStore } from '@/stores/settingsStore';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { Card, CardContent } from '@/components/ui/Card';
+import { formatMargin } from '@/utils/margins';
+import { getBookPrice } from '@/utils/book';
+import { formatOdds } from '@/utils/oddsFormat';
+import { SectionalsTable } from './SectionalsTable';
 
 interface ResultsViewProps {
   race: Race;
 }
 
+const formatPlace = (position: number) => {
+  const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+  return `${position}${suffixes[position] || 'th'}`;
+};
+
 export function ResultsView({ race }: ResultsViewProps) {
-  const { setCurrentScreen } = useGameStore();
-  const { currentBets, clearBets } = useBettingStore();
+  const { setCurrentScreen, openReplay } = useGameStore();
+  const { currentBets: allBets, clearSettledBets } = useBettingStore();
+  const currentBets = allBets.filter((bet) => bet.raceId === race.id);
+  const { getBook } = useOddsStore();
+  const { markets } = useMarketStore();
+  const { oddsFormat } = useSettingsStore();
+
+  // Starting prices, from the market as it stood at the off
+  const startingBook = markets[race.id]?.book ?? getBook(race);
+  const formatStartingPrice = (horseId: string) => {
+    const price = getBookPrice(startingBook, 'win', [horseId]);
+    return price ? formatOdds(price, oddsFormat) : '-';
+  };
 
   const handleBackToLobby = () => {
-    clearBets();
+    clearSettledBets();
     setCurrentScreen('lobby');
   };
 
@@ -38,6 +61,10 @@ export function ResultsView({ race }: ResultsViewProps) {
     return currentBets.filter(bet => bet.status === 'lost').length;
   };
 
+  const getCashedOutBetsCount = () => {
+    return currentBets.filter(bet => bet.status === 'cashed-out').length;
+  };
+
   if (!race.results || race.results.length === 0) {
     return (
       <div className="text-center py-20">
@@ -79,9 +106,14 @@ export function ResultsView({ race }: ResultsViewProps) {
             {race.distance}m • {race.trackSurface} • {race.weather}
           </p>
         </div>
-        <Button variant="secondary" onClick={handleBackToLobby} data-testid="back-button">
-          Back to Lobby
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => openReplay(race.id, 'results')} data-testid="watch-replay-button">
+            Watch Replay
+          </Button>
+          <Button variant="secondary" onClick={handleBackToLobby} data-testid="back-button">
+            Back to Lobby
+          </Button>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -115,7 +147,7 @@ export function ResultsView({ race }: ResultsViewProps) {
           <Card variant="elevated" className="border-slate-400 border-4">
             <CardContent className="text-center">
               <div className="text-6xl mb-4">🥈</div>
-              <h3 className="text-2xl font-bold text-slate-300 mb-2">2nd Place</h3>
+              <h3 className="text-2xl font-bold text-slate-300 mb-2">{formatPlace(second.position)} Place</h3>
               <div
                 className="w-16 h-16 rounded-full border-2 border-slate-500 mx-auto mb-4"
                 style={{ backgroundColor: getHorseColor(second.horseId) }}
@@ -123,6 +155,9 @@ export function ResultsView({ race }: ResultsViewProps) {
               <p className="text-white text-lg">
                 {getHorseName(second.horseId)}
               </p>
+              <p className="text-sm text-slate-400 mt-2" data-testid="second-margin">
+                {second.deadHeat ? 'Dead heat' : `Beaten ${formatMargin(second.margin)}`}
+              </p>
             </CardContent>
           </Card>
         )}
@@ -131,7 +166,7 @@ export function ResultsView({ race }: ResultsViewProps) {
           <Card variant="elevated" className="border-orange-700 border-4">
             <CardContent className="text-center">
               <div className="text-6xl mb-4">🥉</div>
-              <h3 className="text-2xl font-bold text-orange-400 mb-2">3rd Place</h3>
+              <h3 className="text-2xl font-bold text-orange-400 mb-2">{formatPlace(third.position)} Place</h3>
               <div
                 className="w-16 h-16 rounded-full border-2 border-orange-600 mx-auto mb-4"
                 style={{ backgroundColor: getHorseColor(third.horseId) }}
@@ -139,6 +174,9 @@ export function ResultsView({ race }: ResultsViewProps) {
               <p className="text-white text-lg">
                 {getHorseName(third.horseId)}
               </p>
+              <p className="text-sm text-slate-400 mt-2" data-testid="third-margin">
+                {third.deadHeat ? 'Dead heat' : `Beaten ${formatMargin(third.margin)}`}
+              </p>
             </CardContent>
           </Card>
         )}
@@ -179,6 +217,14 @@ export function ResultsView({ race }: ResultsViewProps) {
                       Lost: <span className="text-white font-semibold">{getLostBetsCount()}</span>
                     </span>
                   </div>
+                  {getCashedOutBetsCount() > 0 && (
+                    <div className="flex items-center gap-2" data-testid="cashed-out-count">
+                      <div className="w-3 h-3 rounded-full bg-gold-500" />
+                      <span className="text-sm text-slate-400">
+                        Cashed out: <span className="text-white font-semibold">{getCashedOutBetsCount()}</span>
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -194,11 +240,13 @@ export function ResultsView({ race }: ResultsViewProps) {
         <CardContent>
           <h3 className="text-xl font-bold text-white mb-4">Full Results</h3>
           <div className="space-y-2">
-            <table className="w-full text-sm">
+            <table className="w-full text-sm" data-testid="results-table">
               <thead>
                 <tr className="border-b border-slate-700">
                   <th className="text-left py-2 px-4 text-slate-400">Pos</th>
                   <th className="text-left py-2 px-4 text-slate-400">Horse</th>
+                  <th className="text-left py-2 px-4 text-slate-400">Margin</th>
+                  <th className="text-left py-2 px-4 text-slate-400">SP</th>
                   <th className="text-left py-2 px-4 text-slate-400">Time</th>
                   <th className="text-left py-2 px-4 text-slate-400">Speed</th>
                 </tr>
@@ -218,6 +266,12 @@ export function ResultsView({ race }: ResultsViewProps) {
                         <span className="text-white">{getHorseName(result.horseId)}</span>
                       </div>
                     </td>
+                    <td className="py-3 px-4 text-white" data-testid="result-margin">
+                      {result.deadHeat ? 'dh' : formatMargin(result.margin) || '-'}
+                    </td>
+                    <td className="py-3 px-4 text-white font-mono" data-testid="result-starting-price">
+                      {formatStartingPrice(result.horseId)}
+                    </td>
                     <td className="py-3 px-4 text-white font-mono">
                       {(result.time / 1000).toFixed(2)}s
                     </td>
@@ -231,6 +285,13 @@ export function ResultsView({ race }: ResultsViewProps) {
           </div>
         </CardContent>
       </Card>
+
+      <Card variant="elevated">
+        <CardContent>
+          <h3 className="text-xl font-bold text-white mb-4">Sectional Times</h3>
+          <SectionalsTable results={race.results} horses={race.horses} />
+        </CardContent>
+      </Card>
     </div>
   );
 }
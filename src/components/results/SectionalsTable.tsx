@@ -0,0 +1,52 @@
+import { Horse, RaceResult } from '@/types';
+
+interface SectionalsTableProps {
+  results: RaceResult[];
+  horses: Horse[];
+}
+
+export function SectionalsTable({ results, horses }: SectionalsTableProps) {
+  const markers = results[0]?.sectionals.splits.map((split) => split.distance) ?? [];
+  const calls = results[0]?.sectionals.calls.map((call) => call.label) ?? [];
+
+  if (markers.length === 0) return null;
+
+  const getHorseName = (horseId: string) => {
+    return horses.find((h) => h.id === horseId)?.name || 'Unknown';
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm" data-testid="sectionals-table">
+        <thead>
+          <tr className="border-b border-slate-700">
+            <th className="text-left py-2 px-3 text-slate-400">Horse</th>
+            <th className="text-left py-2 px-3 text-slate-400">
+              Calls <span className="text-xs">({calls.join(', ')})</span>
+            </th>
+            {markers.map((distance) => (
+              <th key={distance} className="text-right py-2 px-3 text-slate-400 font-mono">
+                {distance}m
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((result) => (
+            <tr key={result.horseId} className="border-b border-slate-700">
+              <td className="py-2 px-3 text-white whitespace-nowrap">{getHorseName(result.horseId)}</td>
+              <td className="py-2 px-3 text-white font-mono" data-testid="running-calls">
+                {result.sectionals.calls.map((call) => call.position).join('-')}
+              </td>
+              {result.sectionals.splits.map((split) => (
+                <td key={split.distance} className="py-2 px-3 text-right text-white font-mono">
+                  {(split.split / 1000).toFixed(2)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { SVGAttributes } from 'react';
+import { clsx } from 'clsx';
+
+interface SparklineProps extends Omit<SVGAttributes<SVGSVGElement>, 'values'> {
+  values: number[];
+  width?: number;
+  height?: number;
+}
+
+export function Sparkline({ className, values, width = 64, height = 20, ...props }: SparklineProps) {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+
+  const points = values
+    .map((value, i) => {
+      const x = (i / (values.length - 1)) * width;
+      const y = height - ((value - min) / range) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg
+      className={clsx('overflow-visible', className)}
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      {...props}
+    >
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+}
@@ -1,4 +1,8 @@
-import { Horse, Race, RaceResult, RaceConditions } from '@/types';
+import { Horse, Race, RaceResult, Sectionals, PhotoFinish, RunningStyle } from '@/types';
+import { RandomSource, createSeededRandom } from '@/utils/random';
+import { metresToLengths } from '@/utils/margins';
+import { getGate } from '@/utils/draw';
+import { rateRunner } from '@/utils/ratedPerformance';
 
 /**
  * Race Engine - Simulates horse races using physics-lite model
@@ -10,6 +14,10 @@ export interface HorsePosition {
   velocity: number;
   stamina: number;
   finished: boolean;
+  finishTime?: number; // Exact crossing time in ms, interpolated within the frame
+  lane: number; // Lateral position, 0 is the rail; fractional while changing lanes
+  drafting: boolean; // Sitting in another horse's slipstream
+  blocked: boolean; // Held up by a horse directly in front
 }
 
 export interface RaceFrame {
@@ -18,23 +26,178 @@ export interface RaceFrame {
   leader: string;
 }
 
+/**
+ * The state of a race at an instant, for pricing it while it is run
+ */
+export interface RaceSnapshot {
+  time: number; // Simulated time in ms
+  positions: HorsePosition[];
+  leader: string;
+  progress: number; // Track fraction covered by the leader, 0-1
+  remainingMetres: Record<string, number>; // Distance each horse has still to run
+  finished: boolean;
+}
+
+/**
+ * Fixed simulated timestep in milliseconds. Physics always advances in steps of
+ * this size, regardless of how often the display refreshes.
+ */
+export const SIMULATION_TIMESTEP_MS = 1000 / 60;
+
+/**
+ * Largest wall-clock delta fed to the simulation from a single animation frame,
+ * so a backgrounded tab doesn't fast-forward the race on return
+ */
+const MAX_FRAME_DELTA_MS = 250;
+
+/**
+ * Tolerance for floating point drift when consuming accumulated time
+ */
+const TIMESTEP_EPSILON = 1e-6;
+
+/**
+ * Allowed range for the playback speed multiplier
+ */
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 4;
+
+/**
+ * Converts abstract velocity into track fraction covered per timestep.
+ * Lower means a slower race.
+ */
+const DISTANCE_SCALE = 0.00002;
+
+/**
+ * Sectional times are recorded every this many metres
+ */
+export const SPLIT_DISTANCE_METRES = 200;
+
+/**
+ * Horses separated by less than this many lengths at the line share the position
+ */
+export const DEAD_HEAT_MARGIN_LENGTHS = 0.01;
+
+/**
+ * Finishes closer than this many lengths (a head) go to the judge's photo
+ */
+export const PHOTO_FINISH_MARGIN_LENGTHS = 0.2;
+
+/**
+ * How each running style spends its energy. Pace multipliers scale velocity
+ * early and late in the race, earlyEffort scales how much of the stamina
+ * budget is burned in the first half, and fadeMultiplier scales the late fade.
+ */
+interface RunningStyleProfile {
+  earlyPace: number;
+  latePace: number;
+  earlyEffort: number;
+  fadeMultiplier: number;
+}
+
+const RUNNING_STYLE_PROFILES: Record<RunningStyle, RunningStyleProfile> = {
+  'front-runner': { earlyPace: 1.05, latePace: 0.96, earlyEffort: 1.4, fadeMultiplier: 1.3 },
+  stalker: { earlyPace: 1.0, latePace: 1.0, earlyEffort: 1.0, fadeMultiplier: 1.0 },
+  closer: { earlyPace: 0.95, latePace: 1.05, earlyEffort: 0.7, fadeMultiplier: 0.7 },
+};
+
+/**
+ * Race progress over which jockeys switch from early to late tactics
+ */
+const TACTICS_SWITCH_START = 0.3;
+const TACTICS_SWITCH_END = 0.6;
+
+/**
+ * Energy budget. Each metre costs ENERGY_PER_METRE stamina points at cruising
+ * velocity, rising with the square of the pace, so longer and faster-run
+ * races empty the tank further.
+ */
+const ENERGY_PER_METRE = 0.02;
+const CRUISING_VELOCITY = 80;
+
+/**
+ * Strongest late fade, reached by a horse with an empty tank
+ */
+const MAX_FADE = 0.4;
+
+/**
+ * Lanes moved per timestep when a jockey switches lanes
+ */
+const LANE_CHANGE_PER_STEP = 0.04;
+
+/**
+ * Horses closer than this laterally (in lanes) are in each other's path
+ */
+const LANE_OVERLAP = 0.6;
+
+/**
+ * A horse this many lengths or less behind another in its path is blocked
+ */
+const BLOCKED_RANGE_LENGTHS = 1;
+
+/**
+ * Up to this many lengths behind another horse, a runner gets its slipstream
+ */
+const DRAFT_RANGE_LENGTHS = 3;
+const DRAFT_BONUS = 0.03;
+
+/**
+ * A lane change needs this many lengths clear behind the gap being moved into
+ */
+const LANE_CLEARANCE_LENGTHS = 0.5;
+
+/**
+ * Velocity lost per lane away from the rail, for the extra ground covered
+ */
+const WIDE_LANE_PENALTY = 0.003;
+
+/**
+ * Points in the race (as a fraction of the distance) where running positions are called
+ */
+const RUNNING_CALLS = [
+  { label: '1/4', fraction: 0.25 },
+  { label: '1/2', fraction: 0.5 },
+  { label: '3/4', fraction: 0.75 },
+] as const;
+
 export class RaceEngine {
   private race: Race;
+  private random: RandomSource;
   private horses: Map<string, Horse>;
+  private ratings: Map<string, number>;
   private positions: Map<string, HorsePosition>;
-  private startTime: number;
+  private previousPositions: Map<string, HorsePosition> = new Map();
   private frames: RaceFrame[] = [];
+  private results: RaceResult[] | null = null;
+  private accumulator: number = 0;
+  private lastTimestamp: number | null = null;
   private isRunning: boolean = false;
+  private isPaused: boolean = false;
+  private speed: number = 1;
   private animationFrame: number | null = null;
   private onFrameUpdates: ((frame: RaceFrame) => void)[] = [];
   private onCompletes: ((results: RaceResult[]) => void)[] = [];
   private averageVelocities: Map<string, number[]> = new Map();
-
-  constructor(race: Race, onFrameUpdate?: (frame: RaceFrame) => void, onComplete?: (results: RaceResult[]) => void) {
+  private splitMarkers: number[];
+  private timingMarkers: number[];
+  private markerTimes: Map<string, Map<number, number>> = new Map();
+  private targetLanes: Map<string, number> = new Map();
+
+  constructor(
+    race: Race,
+    onFrameUpdate?: (frame: RaceFrame) => void,
+    onComplete?: (results: RaceResult[]) => void,
+    random: RandomSource = createSeededRandom(race.seed)
+  ) {
     this.race = race;
+    this.random = random;
     this.horses = new Map(race.horses.map(h => [h.id, h]));
+    this.ratings = new Map(race.horses.map(h => [h.id, rateRunner(h, race).rating]));
     this.positions = new Map();
-    this.startTime = Date.now();
+    this.splitMarkers = this.buildSplitMarkers();
+    this.timingMarkers = Array.from(new Set([
+      ...this.splitMarkers,
+      ...RUNNING_CALLS.map(call => race.distance * call.fraction),
+    ]));
     if (onFrameUpdate) this.onFrameUpdates.push(onFrameUpdate);
     if (onComplete) this.onCompletes.push(onComplete);
     this.initializePositions();
@@ -61,7 +224,7 @@ export class RaceEngine {
   }
 
   /**
-   * Start the race simulation
+   * Start the race simulation, driven by requestAnimationFrame
    */
   start(): void {
     if (this.isRunning) return;
@@ -71,10 +234,48 @@ export class RaceEngine {
     this.simulate();
   }
 
+  /**
+   * Advance the simulation by dt milliseconds of simulated time.
+   * Runs as many fixed timesteps as fit and carries the remainder over.
+   * Returns the frames produced by this call.
+   */
+  step(dt: number): RaceFrame[] {
+    const produced: RaceFrame[] = [];
+    if (this.results) return produced;
+
+    this.accumulator += dt;
+
+    while (this.accumulator + TIMESTEP_EPSILON >= SIMULATION_TIMESTEP_MS && !this.results) {
+      this.accumulator = Math.max(0, this.accumulator - SIMULATION_TIMESTEP_MS);
+      produced.push(this.advanceFrame());
+    }
+
+    return produced;
+  }
+
+  /**
+   * Run the whole race synchronously without a DOM and return the results
+   */
+  runToCompletion(): RaceResult[] {
+    while (!this.results) {
+      this.advanceFrame();
+    }
+
+    return this.results;
+  }
+
   /**
    * Initialize horse positions at the start line
    */
   private initializePositions(): void {
+    this.frames = [];
+    this.results = null;
+    this.accumulator = 0;
+    this.lastTimestamp = null;
+    this.averageVelocities = new Map();
+    this.markerTimes = new Map(this.race.horses.map(horse => [horse.id, new Map()]));
+    // Horses break from their starting gates, gate 1 on the rail
+    this.targetLanes = new Map(this.race.horses.map(horse => [horse.id, getGate(this.race, horse.id) - 1]));
     this.race.horses.forEach(horse => {
       this.positions.set(horse.id, {
         horseId: horse.id,
@@ -82,28 +283,30 @@ export class RaceEngine {
         velocity: 0,
         stamina: horse.stamina,
         finished: false,
+        lane: this.targetLanes.get(horse.id)!,
+        drafting: false,
+        blocked: false,
       });
     });
+    this.previousPositions = this.snapshotPositions();
   }
 
   /**
-   * Main simulation loop
+   * Presentation loop - feeds wall-clock time into the fixed-step simulation
    */
   private simulate(): void {
-    const simulateFrame = () => {
-      if (!this.isRunning) return;
-
-      const frame = this.calculateNextFrame();
-      this.frames.push(frame);
+    const simulateFrame = (timestamp: number) => {
+      if (!this.isRunning || this.isPaused) return;
 
-      this.onFrameUpdates.forEach(cb => cb(frame));
+      // The first callback has no previous timestamp, so advance a single step
+      const elapsed = this.lastTimestamp === null
+        ? SIMULATION_TIMESTEP_MS
+        : Math.min(timestamp - this.lastTimestamp, MAX_FRAME_DELTA_MS);
+      this.lastTimestamp = timestamp;
 
-      // Check if all horses have finished
-      const allFinished = Array.from(this.positions.values()).every(p => p.finished);
+      this.step(elapsed * this.speed);
 
-      if (allFinished) {
-        this.finishRace();
-      } else {
+      if (this.isRunning && !this.isPaused) {
         this.animationFrame = requestAnimationFrame(simulateFrame);
       }
     };
@@ -111,11 +314,42 @@ export class RaceEngine {
     this.animationFrame = requestAnimationFrame(simulateFrame);
   }
 
+  /**
+   * Advance the simulation by exactly one fixed timestep
+   */
+  private advanceFrame(): RaceFrame {
+    this.previousPositions = this.snapshotPositions();
+
+    const frame = this.calculateNextFrame();
+    this.frames.push(frame);
+
+    this.onFrameUpdates.forEach(cb => cb(frame));
+
+    // Check if all horses have finished
+    const allFinished = Array.from(this.positions.values()).every(p => p.finished);
+
+    if (allFinished) {
+      this.finishRace();
+    }
+
+    return frame;
+  }
+
+  /**
+   * Copy the current positions so they can be kept between steps
+   */
+  private snapshotPositions(): Map<string, HorsePosition> {
+    return new Map(
+      Array.from(this.positions.entries()).map(([id, pos]) => [id, { ...pos }])
+    );
+  }
+
   /**
    * Calculate next frame of race
    */
   private calculateNextFrame(): RaceFrame {
-    const currentTime = Date.now() - this.startTime;
+    // Simulated time, independent of wall clock so frames are reproducible
+    const currentTime = (this.frames.length + 1) * SIMULATION_TIMESTEP_MS;
     const positions = Array.from(this.positions.values());
 
     // Update each horse's position
@@ -123,14 +357,9 @@ export class RaceEngine {
       if (horsePos.finished) return;
 
       const horse = this.horses.get(horsePos.horseId)!;
-      const conditions: RaceConditions = {
-        trackSurface: this.race.trackSurface,
-        weather: this.race.weather,
-        distance: this.race.distance,
-      };
 
-      // Calculate current velocity
-      const velocity = this.calculateVelocity(horse, horsePos, conditions);
+      // Calculate current velocity, then let traffic around the horse shape it
+      const velocity = this.applyTraffic(horsePos, this.calculateVelocity(horse, horsePos));
 
       // Track velocities for realistic speed calculation
       if (!this.averageVelocities.has(horsePos.horseId)) {
@@ -138,65 +367,128 @@ export class RaceEngine {
       }
       this.averageVelocities.get(horsePos.horseId)!.push(velocity);
 
-      // Update position (velocity is in pixels per frame, convert to percentage)
-      // Scale factor controls race speed - lower means slower race
-      const distancePerFrame = velocity * 0.00002;
+      // Update position (velocity is per timestep, convert to track fraction)
+      const previousPosition = horsePos.position;
+      const distancePerFrame = velocity * DISTANCE_SCALE;
       horsePos.position += distancePerFrame;
       horsePos.velocity = velocity;
 
-      // Apply stamina drain
-      horsePos.stamina = this.applyStaminaDrain(horse, horsePos.position);
+      // Spend energy for the ground just covered
+      horsePos.stamina = this.applyStaminaDrain(horse, horsePos, distancePerFrame * this.race.distance);
 
-      // Check if horse has finished
+      this.recordMarkerCrossings(horsePos.horseId, previousPosition, horsePos.position, currentTime);
+
+      // Check if horse has finished, interpolating the exact crossing instant
       if (horsePos.position >= 1) {
+        const crossingFraction = (1 - previousPosition) / distancePerFrame;
+        horsePos.finishTime = currentTime - SIMULATION_TIMESTEP_MS * (1 - crossingFraction);
         horsePos.position = 1;
         horsePos.finished = true;
       }
     });
 
-    // Find leader
-    const leader = positions.reduce((leader, pos) =>
-      pos.position > leader.position ? pos : leader
-    );
+    // Find leader (the first horse across the line once anyone has finished)
+    const leader = positions.reduce<HorsePosition | null>((leader, pos) =>
+      !leader || this.compareRunners(pos, leader) < 0 ? pos : leader
+    , null);
 
     return {
       time: currentTime,
-      positions,
-      leader: leader.horseId,
+      positions: positions.map(pos => ({ ...pos })),
+      leader: leader?.horseId ?? '',
     };
   }
 
   /**
-   * Calculate velocity for a horse at current position
+   * Runners in a horse's path at the start of this step, paired with how many
+   * lengths ahead of it they are (negative when behind)
+   */
+  private getRunnersInLane(horsePos: HorsePosition, lane: number): { runner: HorsePosition; gap: number }[] {
+    return Array.from(this.previousPositions.values())
+      .filter(other => other.horseId !== horsePos.horseId && !other.finished)
+      .filter(other => Math.abs(other.lane - lane) < LANE_OVERLAP)
+      .map(other => ({
+        runner: other,
+        gap: metresToLengths((other.position - horsePos.position) * this.race.distance),
+      }));
+  }
+
+  /**
+   * Whether a lane has room to move into: nobody alongside or just in front
+   */
+  private isLaneClear(horsePos: HorsePosition, lane: number): boolean {
+    if (lane < 0 || lane >= this.race.horses.length) return false;
+
+    return this.getRunnersInLane(horsePos, lane)
+      .every(({ gap }) => gap > BLOCKED_RANGE_LENGTHS || gap < -LANE_CLEARANCE_LENGTHS);
+  }
+
+  /**
+   * Apply drafting and interference to a horse's velocity, and steer it
+   * between lanes. A blocked horse can go no faster than the one in front
+   * until its jockey finds a gap; with no gap on either side it is boxed in.
    */
-  private calculateVelocity(
-    horse: Horse,
-    horsePos: HorsePosition,
-    conditions: RaceConditions
-  ): number {
-    // Base performance from stats
-    let performance = (horse.topSpeed * 0.4) + (horse.acceleration * 0.3) + (horse.stamina * 0.3);
-
-    // Track surface modifier
-    const surfaceBonus = this.getSurfaceBonus(horse.trackPreference, conditions.trackSurface);
-    performance *= surfaceBonus;
-
-    // Weather modifier
-    if (conditions.weather === 'rain') {
-      performance *= (1 - (0.1 * (1 - horse.stamina / 100)));
-    } else if (conditions.weather === 'muddy') {
-      performance *= (1 - (0.15 * (1 - horse.acceleration / 100)));
+  private applyTraffic(horsePos: HorsePosition, velocity: number): number {
+    const ahead = this.getRunnersInLane(horsePos, horsePos.lane)
+      .filter(({ gap }) => gap > 0)
+      .sort((a, b) => a.gap - b.gap)[0];
+
+    const blocker = ahead && ahead.gap <= BLOCKED_RANGE_LENGTHS ? ahead.runner : undefined;
+    horsePos.blocked = !!blocker && blocker.velocity < velocity;
+    horsePos.drafting = !!ahead && !horsePos.blocked && ahead.gap <= DRAFT_RANGE_LENGTHS;
+
+    // Only pick a new line once the last lane change is complete
+    const currentTarget = this.targetLanes.get(horsePos.horseId) ?? horsePos.lane;
+    if (Math.abs(horsePos.lane - currentTarget) < 1e-9) {
+      const inside = Math.round(horsePos.lane) - 1;
+      const outside = Math.round(horsePos.lane) + 1;
+
+      if (horsePos.blocked) {
+        // Look for running, preferring the inside to save ground
+        if (this.isLaneClear(horsePos, inside)) {
+          this.targetLanes.set(horsePos.horseId, inside);
+        } else if (this.isLaneClear(horsePos, outside)) {
+          this.targetLanes.set(horsePos.horseId, outside);
+        }
+      } else if (!horsePos.drafting && this.isLaneClear(horsePos, inside)) {
+        // Tuck in towards the rail when there is room
+        this.targetLanes.set(horsePos.horseId, inside);
+      }
+    }
+
+    const target = this.targetLanes.get(horsePos.horseId) ?? horsePos.lane;
+    const laneDelta = Math.max(-LANE_CHANGE_PER_STEP, Math.min(LANE_CHANGE_PER_STEP, target - horsePos.lane));
+    horsePos.lane += laneDelta;
+
+    let adjusted = velocity * (1 - horsePos.lane * WIDE_LANE_PENALTY);
+    if (horsePos.blocked && blocker) {
+      adjusted = Math.min(adjusted, blocker.velocity);
+    } else if (horsePos.drafting) {
+      adjusted *= 1 + DRAFT_BONUS;
     }
 
+    return adjusted;
+  }
+
+  /**
+   * Calculate velocity for a horse at current position
+   */
+  private calculateVelocity(horse: Horse, horsePos: HorsePosition): number {
+    // Rated performance for today's going, draw and trip
+    const performance = this.ratings.get(horse.id)!;
+
     // Stochastic variance (reduced by consistency)
     const varianceRange = 40 * (1 - horse.consistency / 100);
-    const randomFactor = (Math.random() - 0.5) * varianceRange;
+    const randomFactor = (this.random() - 0.5) * varianceRange;
 
     // Apply variance to performance
     let velocity = performance + randomFactor;
 
+    // Jockey tactics for the horse's running style
+    velocity *= this.getPaceMultiplier(horse, horsePos.position);
+
     // Apply stamina fade in final 25% of race
-    const fadeFactor = this.applyStaminaFade(horse, horsePos.position);
+    const fadeFactor = this.applyStaminaFade(horse, horsePos);
     velocity *= fadeFactor;
 
     // Acceleration phase (first 10% of race)
@@ -211,53 +503,44 @@ export class RaceEngine {
   }
 
   /**
-   * Apply stamina fade in final 25% of race
+   * Velocity multiplier for the running style, easing from early to late pace
+   * through the middle of the race
    */
-  private applyStaminaFade(horse: Horse, progress: number): number {
-    if (progress < 0.75) return 1.0;
-
-    const fadeFactor = (progress - 0.75) / 0.25; // 0 to 1
-    const staminaDrain = 1 - (horse.stamina / 200); // 0.5 to 1.0
-    const fade = 1 - (fadeFactor * staminaDrain * 0.3); // Max 30% fade
+  private getPaceMultiplier(horse: Horse, progress: number): number {
+    const profile = RUNNING_STYLE_PROFILES[horse.runningStyle];
+    const blend = Math.min(1, Math.max(0,
+      (progress - TACTICS_SWITCH_START) / (TACTICS_SWITCH_END - TACTICS_SWITCH_START)
+    ));
 
-    return fade;
+    return profile.earlyPace + (profile.latePace - profile.earlyPace) * blend;
   }
 
   /**
-   * Apply stamina drain over the race
+   * Apply stamina fade in final 25% of race. The emptier the tank, the harder
+   * the horse fades.
    */
-  private applyStaminaDrain(horse: Horse, progress: number): number {
-    // Stamina drains linearly over the race
-    const drainRate = 0.3; // 30% stamina drain over full race
-    const currentStamina = horse.stamina * (1 - (progress * drainRate));
+  private applyStaminaFade(horse: Horse, horsePos: HorsePosition): number {
+    if (horsePos.position < 0.75) return 1.0;
 
-    return currentStamina;
+    const fadeFactor = (horsePos.position - 0.75) / 0.25; // 0 to 1
+    const depletion = 1 - Math.min(100, horsePos.stamina) / 100; // 0 fresh to 1 empty
+    const fadeMultiplier = RUNNING_STYLE_PROFILES[horse.runningStyle].fadeMultiplier;
+    const fade = 1 - (fadeFactor * depletion * MAX_FADE * fadeMultiplier);
+
+    return Math.max(0, fade);
   }
 
   /**
-   * Get surface bonus for horse preference
+   * Spend energy for the metres covered this step. Front-runners work harder
+   * in the first half and closers save themselves for the second.
    */
-  private getSurfaceBonus(
-    preference: 'firm' | 'soft' | 'heavy',
-    surface: 'firm' | 'soft' | 'heavy'
-  ): number {
-    if (preference === surface) {
-      return 1.1; // 10% bonus on preferred surface
-    }
-
-    const penalties: Record<string, number> = {
-      'firm-firm': 1.0,
-      'firm-soft': 0.95,
-      'firm-heavy': 0.9,
-      'soft-firm': 0.95,
-      'soft-soft': 1.0,
-      'soft-heavy': 0.95,
-      'heavy-firm': 0.9,
-      'heavy-soft': 0.95,
-      'heavy-heavy': 1.0,
-    };
+  private applyStaminaDrain(horse: Horse, horsePos: HorsePosition, metres: number): number {
+    const earlyEffort = RUNNING_STYLE_PROFILES[horse.runningStyle].earlyEffort;
+    const effort = horsePos.position < 0.5 ? earlyEffort : 2 - earlyEffort;
+    const pace = horsePos.velocity / CRUISING_VELOCITY;
+    const cost = metres * ENERGY_PER_METRE * pace * pace * effort;
 
-    return penalties[`${preference}-${surface}`] || 1.0;
+    return Math.max(0, horsePos.stamina - cost);
   }
 
   /**
@@ -271,9 +554,11 @@ export class RaceEngine {
       this.animationFrame = null;
     }
 
-    // Sort horses by finishing position
-    const results: RaceResult[] = Array.from(this.positions.values())
-      .sort((a, b) => b.position - a.position)
+    // Sort horses by the time they crossed the line
+    const finishers = Array.from(this.positions.values())
+      .sort((a, b) => this.compareRunners(a, b));
+
+    const results: RaceResult[] = finishers
       .map((pos, index) => {
         const horse = this.horses.get(pos.horseId)!;
         const velocities = this.averageVelocities.get(pos.horseId) || [];
@@ -287,19 +572,159 @@ export class RaceEngine {
         return {
           horseId: pos.horseId,
           position: index + 1,
-          time: this.frames.length * 16.67, // Approximate time in ms
+          time: pos.finishTime ?? this.frames.length * SIMULATION_TIMESTEP_MS,
           finalSpeed: kmh,
+          margin: index === 0 ? 0 : this.calculateMargin(finishers[index - 1], pos),
+          sectionals: this.buildSectionals(pos.horseId),
         };
       });
 
+    // Horses that can't be separated share the position of the horse in front
+    results.forEach((result, index) => {
+      if (index === 0 || result.margin >= DEAD_HEAT_MARGIN_LENGTHS) return;
+
+      const ahead = results[index - 1];
+      result.position = ahead.position;
+      result.margin = 0;
+      result.deadHeat = true;
+      ahead.deadHeat = true;
+    });
+
+    this.results = results;
     this.onCompletes.forEach(cb => cb(results));
   }
 
+  /**
+   * Split markers in metres from the start, ending at the finish line
+   */
+  private buildSplitMarkers(): number[] {
+    const markers: number[] = [];
+
+    for (let metres = SPLIT_DISTANCE_METRES; metres < this.race.distance; metres += SPLIT_DISTANCE_METRES) {
+      markers.push(metres);
+    }
+    markers.push(this.race.distance);
+
+    return markers;
+  }
+
+  /**
+   * Record the interpolated time a horse passed any timing marker during this step
+   */
+  private recordMarkerCrossings(horseId: string, from: number, to: number, endTime: number): void {
+    const times = this.markerTimes.get(horseId);
+    if (!times || to <= from) return;
+
+    const stepStart = endTime - SIMULATION_TIMESTEP_MS;
+
+    this.timingMarkers.forEach(metres => {
+      const marker = metres / this.race.distance;
+      if (marker > from && marker <= to) {
+        times.set(metres, stepStart + SIMULATION_TIMESTEP_MS * ((marker - from) / (to - from)));
+      }
+    });
+  }
+
+  /**
+   * Build a horse's split times and running positions at each call
+   */
+  private buildSectionals(horseId: string): Sectionals {
+    const times = this.markerTimes.get(horseId) ?? new Map<number, number>();
+
+    const splits = this.splitMarkers.map((distance, index) => {
+      const time = times.get(distance) ?? 0;
+      const previous = index === 0 ? 0 : times.get(this.splitMarkers[index - 1]) ?? 0;
+      return { distance, time, split: time - previous };
+    });
+
+    const calls = RUNNING_CALLS.map(({ label, fraction }) => {
+      const marker = this.race.distance * fraction;
+      const time = times.get(marker) ?? Infinity;
+      const ahead = Array.from(this.markerTimes.entries()).filter(([id, other]) =>
+        id !== horseId && (other.get(marker) ?? Infinity) < time
+      ).length;
+
+      return { label, distance: Math.round(marker), position: ahead + 1 };
+    });
+
+    return { splits, calls };
+  }
+
+  /**
+   * Order two runners: further along first, then earliest across the line
+   */
+  private compareRunners(a: HorsePosition, b: HorsePosition): number {
+    if (a.position !== b.position) return b.position - a.position;
+    return (a.finishTime ?? Infinity) - (b.finishTime ?? Infinity);
+  }
+
+  /**
+   * Distance in lengths between a horse and the horse in front at the line,
+   * based on how far the trailing horse travels in the time gap
+   */
+  private calculateMargin(ahead: HorsePosition, behind: HorsePosition): number {
+    if (ahead.finishTime === undefined || behind.finishTime === undefined) return 0;
+
+    const timeGap = behind.finishTime - ahead.finishTime;
+    const metresPerMs = (behind.velocity * DISTANCE_SCALE * this.race.distance) / SIMULATION_TIMESTEP_MS;
+
+    return metresToLengths(timeGap * metresPerMs);
+  }
+
+  /**
+   * Pause the race, keeping all simulation state so it can be resumed
+   */
+  pause(): void {
+    if (!this.isRunning || this.isPaused) return;
+
+    this.isPaused = true;
+
+    if (this.animationFrame) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+
+  /**
+   * Resume a paused race from where it left off
+   */
+  resume(): void {
+    if (!this.isRunning || !this.isPaused) return;
+
+    this.isPaused = false;
+    // Time spent paused must not be fed into the simulation
+    this.lastTimestamp = null;
+    this.simulate();
+  }
+
+  /**
+   * Set the playback speed multiplier. The simulation still advances in
+   * fixed timesteps, so speed never changes the outcome.
+   */
+  setSpeed(multiplier: number): void {
+    this.speed = Math.min(MAX_SPEED, Math.max(MIN_SPEED, multiplier));
+  }
+
+  /**
+   * Get the playback speed multiplier
+   */
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Whether the race is currently paused
+   */
+  getIsPaused(): boolean {
+    return this.isPaused;
+  }
+
   /**
    * Stop the race simulation
    */
   stop(): void {
     this.isRunning = false;
+    this.isPaused = false;
 
     if (this.animationFrame) {
       cancelAnimationFrame(this.animationFrame);
@@ -324,4 +749,97 @@ export class RaceEngine {
   getCurrentPositions(): HorsePosition[] {
     return Array.from(this.positions.values());
   }
+
+  /**
+   * Get a snapshot of the race as simulated so far. Positions are copies, so
+   * the snapshot stays valid as the race goes on.
+   */
+  getSnapshot(): RaceSnapshot {
+    const lastFrame = this.frames[this.frames.length - 1];
+    const positions = Array.from(this.positions.values()).map(pos => ({ ...pos }));
+
+    return {
+      time: lastFrame?.time ?? 0,
+      positions,
+      leader: lastFrame?.leader ?? '',
+      progress: Math.max(0, ...positions.map(pos => pos.position)),
+      remainingMetres: Object.fromEntries(
+        positions.map(pos => [pos.horseId, (1 - pos.position) * this.race.distance])
+      ),
+      finished: this.results !== null,
+    };
+  }
+
+  /**
+   * Get positions interpolated between the last two simulated frames,
+   * for smooth rendering at any display refresh rate
+   */
+  getInterpolatedPositions(): HorsePosition[] {
+    const alpha = Math.min(1, this.accumulator / SIMULATION_TIMESTEP_MS);
+
+    return Array.from(this.positions.values()).map(current => {
+      const previous = this.previousPositions.get(current.horseId);
+      if (!previous || current.finished) return current;
+
+      return {
+        ...current,
+        position: previous.position + (current.position - previous.position) * alpha,
+        lane: previous.lane + (current.lane - previous.lane) * alpha,
+      };
+    });
+  }
+
+  /**
+   * Get the photo of the finish if the leading horses were too close to call
+   * by eye, with every horse's position at the instant the winner hit the line
+   */
+  getPhotoFinish(): PhotoFinish | null {
+    const results = this.results;
+    if (!results || results.length < 2) return null;
+
+    // Horses in a photo with the winner, each within a head of the horse in front
+    const involved = [results[0]];
+    for (let i = 1; i < results.length; i++) {
+      if (results[i].margin >= PHOTO_FINISH_MARGIN_LENGTHS) break;
+      involved.push(results[i]);
+    }
+    if (involved.length < 2) return null;
+
+    const time = results[0].time;
+    const frameIndex = this.frames.findIndex(frame => frame.time >= time);
+    const frame = this.frames[frameIndex];
+    const previous = frameIndex > 0 ? this.frames[frameIndex - 1] : null;
+    if (!frame) return null;
+
+    // Replay the crossing step up to the exact instant
+    const fraction = (time - (frame.time - SIMULATION_TIMESTEP_MS)) / SIMULATION_TIMESTEP_MS;
+    const positions = frame.positions.map(current => {
+      const start = previous?.positions.find(p => p.horseId === current.horseId)?.position ?? 0;
+      return {
+        horseId: current.horseId,
+        position: Math.min(1, start + current.velocity * DISTANCE_SCALE * fraction),
+      };
+    });
+
+    return {
+      time,
+      horseIds: involved.map(result => result.horseId),
+      positions,
+      deadHeat: involved.some(result => result.deadHeat),
+    };
+  }
+
+  /**
+   * Get every simulated frame so far
+   */
+  getFrames(): RaceFrame[] {
+    return this.frames;
+  }
+
+  /**
+   * Get the results once the race has finished
+   */
+  getResults(): RaceResult[] | null {
+    return this.results;
+  }
 }
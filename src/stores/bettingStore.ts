@@ -1,6 +1,10 @@
 import { create } from 'zustand';
-import { Bet, BetType, Race, ValidationResult, ECONOMY_CONFIG } from '@/types';
+import { Bet, BetStatus, BetType, EachWayTerms, Race, ToteDividends, ValidationResult, BETTING_CONFIG, ECONOMY_CONFIG } from '@/types';
 import { betsStorage } from '@/utils/localStorage';
+import { getSettlementFactor } from '@/utils/settlement';
+import { getDividend } from '@/utils/tote';
+import { getEachWayPlaceOdds } from '@/utils/eachWay';
+import { isCashOutAvailable } from '@/utils/cashOut';
 
 interface BettingState {
   // Current bets
@@ -9,36 +13,72 @@ interface BettingState {
   // Add bet
   addBet: (bet: Omit<Bet, 'id' | 'placedAt'>) => void;
 
-  // Remove bet
-  removeBet: (betId: string) => void;
+  // Add an each-way bet from a win bet, as linked win and place parts each
+  // staking the bet's amount
+  addEachWayBet: (bet: Omit<Bet, 'id' | 'placedAt' | 'type' | 'eachWay'>, terms: EachWayTerms) => Bet[];
+
+  // Check a bet can still be cancelled: it must be pending, its race not yet
+  // started and the cut-off before the start time not yet passed
+  validateCancellation: (betId: string, startTime: number, now?: number) => ValidationResult;
+
+  // Cancel a bet, along with the other part of an each-way bet. Returns the
+  // bets cancelled, whose stakes are to be refunded.
+  cancelBet: (betId: string, startTime: number, now?: number) => Bet[];
+
+  // Lock a race's pending bets when it starts
+  lockBets: (raceId: string) => void;
+
+  // Settle a pending fixed odds bet early for a cash-out offer. Returns the
+  // bet, or undefined if it can't be cashed out.
+  cashOutBet: (betId: string, amount: number) => Bet | undefined;
 
   // Clear all bets
   clearBets: () => void;
 
+  // Clear settled bets, keeping those on races still to run
+  clearSettledBets: () => void;
+
   // Validate bet
   validateBet: (bet: Omit<Bet, 'id' | 'placedAt'>, balance: number) => ValidationResult;
 
   // Calculate potential payout
   calculatePotentialPayout: (betType: BetType, odds: number, amount: number) => number;
 
-  // Update bet status after race
-  updateBetStatuses: (raceResults: Race['results']) => void;
-
-  // Settle bets after race and calculate total winnings
-  settleBets: (raceResults: Race['results']) => { totalWinnings: number; totalStake: number; wonBets: number; lostBets: number };
+  // Settle a race's bets and calculate total winnings. Tote bets are paid
+  // from the declared dividends; bets on other races are left pending.
+  settleBets: (raceId: string, raceResults: Race['results'], dividends?: ToteDividends) => { totalWinnings: number; totalStake: number; wonBets: number; lostBets: number };
 
   // Get bet result for settlement
-  getBetResult: (betId: string) => 'won' | 'lost' | 'pending';
+  getBetResult: (betId: string) => BetStatus;
 
-  // Get total stake
-  getTotalStake: () => number;
+  // Get total stake on a race
+  getTotalStake: (raceId: string) => number;
 
-  // Get total potential payout
-  getTotalPotentialPayout: () => number;
+  // Get total potential payout on a race
+  getTotalPotentialPayout: (raceId: string) => number;
+}
+
+/**
+ * Amount returned on a bet. Fixed odds bets pay their potential payout,
+ * shared under dead-heat rules; tote bets pay the declared dividend, which
+ * already allows for dead heats.
+ */
+function getWinnings(bet: Bet, raceResults: Race['results'], dividends?: ToteDividends): number {
+  const factor = getSettlementFactor(bet, raceResults);
+  if (factor === 0) return 0;
+
+  if (bet.mode === 'tote') {
+    const dividend = dividends ? getDividend(dividends, bet.type, bet.horseIds) : undefined;
+    return dividend ? bet.amount * dividend : 0;
+  }
+
+  return bet.potentialPayout * factor;
 }
 
 export const useBettingStore = create<BettingState>((set, get) => ({
-  currentBets: [],
+  // Bets still to be settled are reloaded, as their stakes have already been
+  // taken from the wallet
+  currentBets: betsStorage.get().filter((bet) => bet.status === 'pending'),
 
   addBet: (betData) => {
     const bet: Bet = {
@@ -55,16 +95,114 @@ export const useBettingStore = create<BettingState>((set, get) => ({
     betsStorage.add(bet);
   },
 
-  removeBet: (betId) => {
+  addEachWayBet: (betData, terms) => {
+    const placedAt = Date.now();
+    const eachWayId = `ew-${placedAt}-${Math.random().toString(36).substr(2, 9)}`;
+    const placeOdds = getEachWayPlaceOdds(betData.odds, terms);
+
+    const parts: Bet[] = [
+      {
+        ...betData,
+        id: `${eachWayId}-win`,
+        type: 'win',
+        eachWay: { id: eachWayId, part: 'win', terms },
+        potentialPayout: betData.odds * betData.amount,
+        placedAt,
+      },
+      {
+        ...betData,
+        id: `${eachWayId}-place`,
+        type: 'place',
+        odds: placeOdds,
+        eachWay: { id: eachWayId, part: 'place', terms },
+        potentialPayout: placeOdds * betData.amount,
+        placedAt,
+      },
+    ];
+
+    set((state) => ({
+      currentBets: [...state.currentBets, ...parts],
+    }));
+
+    parts.forEach((bet) => betsStorage.add(bet));
+    return parts;
+  },
+
+  validateCancellation: (betId, startTime, now = Date.now()) => {
+    const bet = get().currentBets.find((b) => b.id === betId);
+
+    if (!bet) {
+      return { valid: false, error: 'Bet not found' };
+    }
+
+    if (bet.status !== 'pending') {
+      return { valid: false, error: `This bet has already ${bet.status === 'cancelled' ? 'been cancelled' : 'been settled'}` };
+    }
+
+    if (bet.lockedAt) {
+      return { valid: false, error: 'Bets are locked once the race has started' };
+    }
+
+    if (now > startTime - BETTING_CONFIG.CANCEL_CUTOFF_MS) {
+      return {
+        valid: false,
+        error: `Bets can only be cancelled up to ${BETTING_CONFIG.CANCEL_CUTOFF_MS / 1000}s before the start`
+      };
+    }
+
+    return { valid: true };
+  },
+
+  cancelBet: (betId, startTime, now) => {
+    if (!get().validateCancellation(betId, startTime, now).valid) return [];
+
+    const { currentBets } = get();
+    const eachWayId = currentBets.find((bet) => bet.id === betId)?.eachWay?.id;
+    const cancelled = currentBets.filter((bet) =>
+      bet.id === betId || (eachWayId !== undefined && bet.eachWay?.id === eachWayId));
+
+    // Cancelled bets leave the slip but stay in the history
+    set({ currentBets: currentBets.filter((bet) => !cancelled.includes(bet)) });
+    cancelled.forEach((bet) => betsStorage.update(bet.id, { status: 'cancelled' }));
+
+    return cancelled.map((bet) => ({ ...bet, status: 'cancelled' as const }));
+  },
+
+  lockBets: (raceId) => {
+    const lockedAt = Date.now();
+    const isLocking = (bet: Bet) => bet.raceId === raceId && bet.status === 'pending' && !bet.lockedAt;
+    const locking = get().currentBets.filter(isLocking);
+
+    set((state) => ({
+      currentBets: state.currentBets.map((bet) => (isLocking(bet) ? { ...bet, lockedAt } : bet)),
+    }));
+    locking.forEach((bet) => betsStorage.update(bet.id, { lockedAt }));
+  },
+
+  cashOutBet: (betId, amount) => {
+    const bet = get().currentBets.find((b) => b.id === betId);
+    if (!bet || !isCashOutAvailable(bet)) return undefined;
+
+    const cashedOut: Bet = { ...bet, status: 'cashed-out', winnings: amount };
+
     set((state) => ({
-      currentBets: state.currentBets.filter((bet) => bet.id !== betId),
+      currentBets: state.currentBets.map((b) => (b.id === betId ? cashedOut : b)),
     }));
+    betsStorage.update(betId, { status: 'cashed-out', winnings: amount });
+
+    return cashedOut;
   },
 
   clearBets: () => {
     set({ currentBets: [] });
   },
 
+  clearSettledBets: () => {
+    set((state) => ({
+      currentBets: state.currentBets.filter((bet) => bet.status === 'pending'),
+    }));
+  },
+
   validateBet: (bet, balance) => {
     if (balance < bet.amount) {
       return { valid: false, error: 'Insufficient balance' };
@@ -96,108 +234,48 @@ export const useBettingStore = create<BettingState>((set, get) => ({
       case 'show':
         return (odds * 0.25) * amount;
       case 'exacta':
-        return (odds * 0.1) * amount;
+      case 'trifecta':
+      case 'superfecta':
+      case 'quinella':
+      case 'first-four':
+        return odds * amount;
       default:
         return 0;
     }
   },
 
-  updateBetStatuses: (raceResults) => {
-    const { currentBets } = get();
-    let totalWinnings = 0;
-    let wonBets = 0;
-    let lostBets = 0;
-
-    const updatedBets = currentBets.map((bet) => {
-      let won = false;
-      let winnings = 0;
-
-      switch (bet.type) {
-        case 'win':
-          won = (raceResults?.[0]?.horseId === bet.horseIds[0]) || false;
-          break;
-        case 'place':
-          won = (raceResults?.slice(0, 2).some((r) => r.horseId === bet.horseIds[0])) || false;
-          break;
-        case 'show':
-          won = (raceResults?.slice(0, 3).some((r) => r.horseId === bet.horseIds[0])) || false;
-          break;
-        case 'exacta':
-          won = (
-            raceResults?.[0]?.horseId === bet.horseIds[0] &&
-            raceResults?.[1]?.horseId === bet.horseIds[1]
-          ) || false;
-          break;
-      }
-
-      if (won) {
-        winnings = bet.potentialPayout;
-        totalWinnings += winnings;
-        wonBets++;
-      } else {
-        lostBets++;
-      }
-
-      return {
-        ...bet,
-        winnings: won ? winnings : 0,
-        status: (won ? 'won' : 'lost') as 'won' | 'lost',
-      };
-    });
-
-    set({ currentBets: updatedBets });
-
-    const totalStake = updatedBets.reduce((sum, bet) => sum + bet.amount, 0);
-
-    return { totalWinnings, totalStake, wonBets, lostBets };
-  },
-
   getBetResult: (betId: string) => {
     const bet = get().currentBets.find(b => b.id === betId);
     return bet?.status || 'pending';
   },
 
-  getTotalStake: () => {
-    return get().currentBets.reduce((total, bet) => total + bet.amount, 0);
+  getTotalStake: (raceId) => {
+    return get().currentBets
+      .filter((bet) => bet.raceId === raceId)
+      .reduce((total, bet) => total + bet.amount, 0);
   },
 
-  getTotalPotentialPayout: () => {
-    return get().currentBets.reduce(
-      (total, bet) => total + bet.potentialPayout,
-      0
-    );
+  getTotalPotentialPayout: (raceId) => {
+    return get().currentBets
+      .filter((bet) => bet.raceId === raceId)
+      .reduce((total, bet) => total + bet.potentialPayout, 0);
   },
 
-  settleBets: (raceResults) => {
+  settleBets: (raceId, raceResults, dividends) => {
     const { currentBets } = get();
     let totalWinnings = 0;
     let wonBets = 0;
     let lostBets = 0;
 
+    const isSettling = (bet: Bet) => bet.raceId === raceId && bet.status === 'pending';
+
     const updatedBets = currentBets.map((bet) => {
-      let won = false;
-      let winnings = 0;
-
-      switch (bet.type) {
-        case 'win':
-          won = (raceResults?.[0]?.horseId === bet.horseIds[0]) || false;
-          break;
-        case 'place':
-          won = (raceResults?.slice(0, 2).some((r) => r.horseId === bet.horseIds[0])) || false;
-          break;
-        case 'show':
-          won = (raceResults?.slice(0, 3).some((r) => r.horseId === bet.horseIds[0])) || false;
-          break;
-        case 'exacta':
-          won = (
-            raceResults?.[0]?.horseId === bet.horseIds[0] &&
-            raceResults?.[1]?.horseId === bet.horseIds[1]
-          ) || false;
-          break;
-      }
+      if (!isSettling(bet)) return bet;
+
+      const winnings = getWinnings(bet, raceResults, dividends);
+      const won = winnings > 0;
 
       if (won) {
-        winnings = bet.potentialPayout;
         totalWinnings += winnings;
         wonBets++;
       } else {
@@ -213,7 +291,14 @@ export const useBettingStore = create<BettingState>((set, get) => ({
 
     set({ currentBets: updatedBets });
 
-    const totalStake = updatedBets.reduce((sum, bet) => sum + bet.amount, 0);
+    const settledBets = updatedBets.filter((_, i) => isSettling(currentBets[i]));
+
+    // Persist outcomes so bet history reflects settled bets
+    settledBets.forEach((bet) => {
+      betsStorage.update(bet.id, { status: bet.status, winnings: bet.winnings });
+    });
+
+    const totalStake = settledBets.reduce((sum, bet) => sum + bet.amount, 0);
 
     return { totalWinnings, totalStake, wonBets, lostBets };
   },
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { GameScreen, Race, Horse, RaceResult } from '@/types';
+import { GameScreen, Race, Horse, RaceResult, PhotoFinish } from '@/types';
 
 interface GameState {
   // Current screen
@@ -11,6 +11,15 @@ interface GameState {
   setCurrentRace: (race: Race | null) => void;
   updateRaceResults: (results: RaceResult[]) => void;
 
+  // Photo finish for the current race, if the judge was called
+  photoFinish: PhotoFinish | null;
+  setPhotoFinish: (photoFinish: PhotoFinish | null) => void;
+
+  // Replay being watched, and where to return to afterwards
+  replay: { raceId: string; returnScreen: GameScreen } | null;
+  openReplay: (raceId: string, returnScreen: GameScreen) => void;
+  closeReplay: () => void;
+
   // Selected horse
   selectedHorse: Horse | null;
   setSelectedHorse: (horse: Horse | null) => void;
@@ -32,6 +41,8 @@ interface GameState {
 const initialState = {
   currentScreen: 'lobby' as GameScreen,
   currentRace: null,
+  photoFinish: null,
+  replay: null,
   selectedHorse: null,
   isBettingSlipOpen: false,
   raceProgress: 0,
@@ -48,6 +59,18 @@ export const useGameStore = create<GameState>((set) => ({
     currentRace: state.currentRace ? { ...state.currentRace, results } : null,
   })),
 
+  setPhotoFinish: (photoFinish) => set({ photoFinish }),
+
+  openReplay: (raceId, returnScreen) => set({
+    replay: { raceId, returnScreen },
+    currentScreen: 'replay',
+  }),
+
+  closeReplay: () => set((state) => ({
+    replay: null,
+    currentScreen: state.replay?.returnScreen ?? 'lobby',
+  })),
+
   setSelectedHorse: (horse) => set({ selectedHorse: horse }),
 
   toggleBettingSlip: () => set((state) => ({ isBettingSlipOpen: !state.isBettingSlipOpen })),
@@ -1,7 +1,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { Horse } from '@/types';
+import { Horse, RaceResult, RunningStyle } from '@/types';
 import { horsesStorage } from '@/utils/localStorage';
+import { RandomSource, shuffle } from '@/utils/random';
+import { generateOptimalTrip } from '@/utils/trip';
 
 // Realistic horse coat colors
 const HORSE_COLORS = [
@@ -19,6 +21,8 @@ const HORSE_COLORS = [
   '#7B3F00', // Gold/Chestnut Mix
 ] as const;
 
+const RUNNING_STYLES: RunningStyle[] = ['front-runner', 'stalker', 'closer'];
+
 interface HorseState {
   horses: Horse[];
 
@@ -31,11 +35,11 @@ interface HorseState {
   // Get horse by ID
   getHorseById: (horseId: string) => Horse | undefined;
 
-  // Get horses for race
-  getRaceHorses: (count: number) => Horse[];
+  // Get horses for race, drawn with the given random source
+  getRaceHorses: (count: number, random?: RandomSource) => Horse[];
 
   // Update horse stats after race
-  updateHorseStats: (horseId: string, position: number) => void;
+  updateHorseStats: (result: RaceResult) => void;
 
   // Reset horses
   reset: () => void;
@@ -72,13 +76,13 @@ export const useHorseStore = create<HorseState>()(
         return get().horses.find((horse) => horse.id === horseId);
       },
 
-      getRaceHorses: (count) => {
+      getRaceHorses: (count, random = Math.random) => {
         const state = get();
         
         // If we don't have enough horses, generate new ones
         if (state.horses.length < count) {
           const needed = count - state.horses.length;
-          const newHorses = generateHorses(needed);
+          const newHorses = generateHorses(needed, random, state.horses.length);
           
           set((prevState) => ({
             horses: [...prevState.horses, ...newHorses],
@@ -90,29 +94,21 @@ export const useHorseStore = create<HorseState>()(
         }
         
         // Shuffle and return first count horses
-        const shuffled = [...state.horses].sort(() => Math.random() - 0.5);
-        return shuffled.slice(0, count);
+        return shuffle(state.horses, random).slice(0, count);
       },
 
-      updateHorseStats: (horseId, position) => {
-        const horse = get().getHorseById(horseId);
+      updateHorseStats: (result) => {
+        const horse = get().getHorseById(result.horseId);
         if (!horse) {
           return;
         }
         
-        const newRaceResult = {
-          horseId,
-          position,
-          time: Math.random() * 10 + 50, // Random time between 50-60 seconds
-          finalSpeed: horse.topSpeed * (1 - (position - 1) * 0.05),
-        };
-        
-        const newRaceHistory = [...horse.raceHistory, newRaceResult];
+        const newRaceHistory = [...horse.raceHistory, result];
         const newTotalRaces = horse.totalRaces + 1;
         const wins = newRaceHistory.filter((r) => r.position === 1).length;
         const newWinRate = wins / newTotalRaces;
         
-        get().updateHorse(horseId, {
+        get().updateHorse(result.horseId, {
           raceHistory: newRaceHistory,
           totalRaces: newTotalRaces,
           winRate: newWinRate,
@@ -126,12 +122,31 @@ export const useHorseStore = create<HorseState>()(
     }),
     {
       name: 'turf-sprint-horses',
+      version: 2,
+      // Horses saved before running styles or trip ranges existed get them assigned
+      migrate: (persistedState) => {
+        const state = persistedState as { horses?: Horse[] } | undefined;
+        return {
+          ...state,
+          horses: (state?.horses ?? []).map((horse) => ({
+            ...horse,
+            runningStyle: horse.runningStyle ?? pickRunningStyle(),
+            optimalTrip: horse.optimalTrip ?? generateOptimalTrip(horse.stamina),
+          })),
+        } as HorseState;
+      },
     }
   )
 );
 
-// Helper function to generate random horses
-function generateHorses(count: number): Horse[] {
+// Helper function to pick a random running style
+function pickRunningStyle(random: RandomSource = Math.random): RunningStyle {
+  return RUNNING_STYLES[Math.floor(random() * RUNNING_STYLES.length)];
+}
+
+// Helper function to generate random horses. Ids are numbered on from the
+// horses already in the stable.
+function generateHorses(count: number, random: RandomSource = Math.random, existing = 0): Horse[] {
   const horseNames = [
     'Thunder Strike', 'Midnight Star', 'Golden Dash', 'Silver Bullet',
     'Storm Runner', 'Lightning Bolt', 'Fire Storm', 'Wind Walker',
@@ -147,27 +162,31 @@ function generateHorses(count: number): Horse[] {
   const horses: Horse[] = [];
   
   for (let i = 0; i < count; i++) {
-    const nameIndex = Math.floor(Math.random() * horseNames.length);
-    const name = `${horseNames[nameIndex]} ${Math.floor(Math.random() * 100)}`;
+    const nameIndex = Math.floor(random() * horseNames.length);
+    const name = `${horseNames[nameIndex]} ${Math.floor(random() * 100)}`;
     horseNames.splice(nameIndex, 1);
     
+    const stamina = Math.floor(random() * 30) + 70; // 70-100
+
     horses.push({
-      id: `horse-${Date.now()}-${i}`,
+      id: `horse-${existing + i + 1}`,
       name,
-      color: colors[Math.floor(Math.random() * colors.length)],
-      topSpeed: Math.floor(Math.random() * 30) + 70, // 70-100
-      acceleration: Math.floor(Math.random() * 30) + 70, // 70-100
-      stamina: Math.floor(Math.random() * 30) + 70, // 70-100
-      consistency: Math.floor(Math.random() * 30) + 70, // 70-100
-      trackPreference: trackPreferences[Math.floor(Math.random() * trackPreferences.length)],
-      weatherModifier: Math.random() * 0.2 + 0.9, // 0.9-1.1
+      color: colors[Math.floor(random() * colors.length)],
+      topSpeed: Math.floor(random() * 30) + 70, // 70-100
+      acceleration: Math.floor(random() * 30) + 70, // 70-100
+      stamina,
+      consistency: Math.floor(random() * 30) + 70, // 70-100
+      trackPreference: trackPreferences[Math.floor(random() * trackPreferences.length)],
+      weatherModifier: random() * 0.2 + 0.9, // 0.9-1.1
+      runningStyle: pickRunningStyle(random),
+      optimalTrip: generateOptimalTrip(stamina, random),
       raceHistory: [],
       winRate: 0,
       totalRaces: 0,
       spriteConfig: {
         width: 80,
         height: 60,
-        color: colors[Math.floor(Math.random() * colors.length)],
+        color: colors[Math.floor(random() * colors.length)],
       },
     });
   }
@@ -0,0 +1,75 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Book, Market, Race } from '@/types';
+import { addPlayerStake, catchUpMarket, closeMarket, createMarket } from '@/utils/market';
+
+interface MarketState {
+  // Live markets by race id
+  markets: Record<string, Market>;
+
+  // Bring a race's market up to date, opening it if needed, and return it.
+  // Prices move with the time since the race was put on the card, so the
+  // market catches up however long it went unread.
+  catchUp: (race: Race, opening: Book, now?: number) => Market;
+
+  // Close a race's market as it goes off, so its prices stand as the
+  // starting prices
+  closeMarket: (race: Race, opening: Book, now?: number) => void;
+
+  // Shorten prices after the player places a bet, or undo that with a
+  // negative amount when one is cancelled
+  recordStake: (raceId: string, horseIds: string[], amount: number) => void;
+
+  // Reset
+  reset: () => void;
+}
+
+export const useMarketStore = create<MarketState>()(
+  persist(
+    (set, get) => ({
+      markets: {},
+
+      catchUp: (race, opening, now = Date.now()) => {
+        const current = get().markets[race.id] ?? createMarket(race, opening);
+        const market = catchUpMarket(current, race, opening, now);
+        if (market === get().markets[race.id]) return market;
+
+        set((state) => ({
+          markets: { ...state.markets, [race.id]: market },
+        }));
+        return market;
+      },
+
+      closeMarket: (race, opening, now = Date.now()) => {
+        const market = get().markets[race.id] ?? createMarket(race, opening);
+
+        set((state) => ({
+          markets: { ...state.markets, [race.id]: closeMarket(market, race, opening, now) },
+        }));
+      },
+
+      recordStake: (raceId, horseIds, amount) => {
+        const market = get().markets[raceId];
+        if (!market) return;
+
+        set((state) => ({
+          markets: { ...state.markets, [raceId]: addPlayerStake(market, horseIds, amount) },
+        }));
+      },
+
+      reset: () => {
+        set({ markets: {} });
+      },
+    }),
+    {
+      name: 'turf-sprint-markets',
+      // Markets still open are kept across reloads with the player's stakes
+      // in them; closed ones are only read while their race is shown
+      partialize: (state) => ({
+        markets: Object.fromEntries(
+          Object.entries(state.markets).filter(([, market]) => market.closedAt === undefined)
+        ),
+      }),
+    }
+  )
+);
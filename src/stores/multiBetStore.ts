@@ -0,0 +1,93 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { MultiBet, RaceResult, ValidationResult, ECONOMY_CONFIG } from '@/types';
+import { settleMultiBet, validateMultiLegs } from '@/utils/multiBets';
+
+interface MultiBetState {
+  // Multi-race bets, kept until every leg has been run
+  multiBets: MultiBet[];
+
+  // Place a multi-race bet
+  placeMultiBet: (bet: Omit<MultiBet, 'id' | 'placedAt' | 'status' | 'winnings'>) => MultiBet;
+
+  // Validate a multi-race bet against the race ids on the card, in running order
+  validateMultiBet: (bet: Pick<MultiBet, 'type' | 'legs' | 'amount'>, balance: number, schedule: string[]) => ValidationResult;
+
+  // Settle legs run in a race, returning winnings from bets it completed
+  settleRace: (raceId: string, results: RaceResult[]) => { totalWinnings: number; completed: MultiBet[] };
+
+  // Remove bets that have been settled
+  clearSettled: () => void;
+
+  // Reset
+  reset: () => void;
+}
+
+export const useMultiBetStore = create<MultiBetState>()(
+  persist(
+    (set, get) => ({
+      multiBets: [],
+
+      placeMultiBet: (betData) => {
+        const bet: MultiBet = {
+          ...betData,
+          id: `multi-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          placedAt: Date.now(),
+          status: 'pending',
+          winnings: 0,
+        };
+
+        set((state) => ({
+          multiBets: [...state.multiBets, bet],
+        }));
+        return bet;
+      },
+
+      validateMultiBet: (bet, balance, schedule) => {
+        const legsError = validateMultiLegs(bet.type, bet.legs, schedule);
+        if (legsError) {
+          return { valid: false, error: legsError };
+        }
+
+        if (balance < bet.amount) {
+          return { valid: false, error: 'Insufficient balance' };
+        }
+
+        if (bet.amount < ECONOMY_CONFIG.MIN_BET) {
+          return { valid: false, error: `Minimum bet is ${ECONOMY_CONFIG.MIN_BET} credits` };
+        }
+
+        if (bet.amount > ECONOMY_CONFIG.MAX_BET) {
+          return { valid: false, error: `Maximum bet is ${ECONOMY_CONFIG.MAX_BET} credits` };
+        }
+
+        return { valid: true };
+      },
+
+      settleRace: (raceId, results) => {
+        const { multiBets } = get();
+        const updated = multiBets.map((bet) => settleMultiBet(bet, raceId, results));
+
+        // Bets this race took out of pending
+        const completed = updated.filter((bet, i) => bet.status !== 'pending' && multiBets[i].status === 'pending');
+        const totalWinnings = completed.reduce((sum, bet) => sum + bet.winnings, 0);
+
+        set({ multiBets: updated });
+        return { totalWinnings, completed };
+      },
+
+      clearSettled: () => {
+        set((state) => ({
+          multiBets: state.multiBets.filter((bet) => bet.status === 'pending'),
+        }));
+      },
+
+      reset: () => {
+        set({ multiBets: [] });
+      },
+    }),
+    {
+      name: 'turf-sprint-multi-bets',
+    }
+  )
+);
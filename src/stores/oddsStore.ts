@@ -0,0 +1,86 @@
+import { create } from 'zustand';
+import { Book, Horse, ODDS_CONFIG, Race, RaceProbabilities } from '@/types';
+import { createBook, getBookPrice } from '@/utils/book';
+import type { OddsWorkerRequest, OddsWorkerResponse } from '@/workers/oddsWorker';
+
+interface OddsState {
+  // Simulated probabilities by race id, refined as batches complete
+  probabilities: Record<string, RaceProbabilities>;
+
+  // Start simulating a race's market, if not already under way
+  requestProbabilities: (race: Race) => void;
+
+  // Book for a race - priced from simulations when available, otherwise the formula
+  getBook: (race: Race) => Book;
+
+  // Win odds for a horse from the race's book
+  getWinOdds: (horse: Horse, race: Race) => number;
+
+  // Reset
+  reset: () => void;
+}
+
+// Races already sent to the worker
+const requested = new Set<string>();
+let worker: Worker | null = null;
+
+// Books already made, by race id, with the probabilities they were priced from
+const books = new Map<string, { probabilities?: RaceProbabilities; book: Book }>();
+
+/**
+ * Lazily start the odds worker. Returns null where workers aren't available,
+ * in which case prices fall back to the formula.
+ */
+function getWorker(onResult: (probabilities: OddsWorkerResponse) => void): Worker | null {
+  if (worker) return worker;
+  if (typeof Worker === 'undefined') return null;
+
+  worker = new Worker(new URL('../workers/oddsWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<OddsWorkerResponse>) => onResult(event.data);
+  return worker;
+}
+
+export const useOddsStore = create<OddsState>()((set, get) => ({
+  probabilities: {},
+
+  requestProbabilities: (race) => {
+    if (ODDS_CONFIG.MODE !== 'simulation' || requested.has(race.id)) return;
+
+    const oddsWorker = getWorker((probabilities) => {
+      set((state) => ({
+        probabilities: { ...state.probabilities, [probabilities.raceId]: probabilities },
+      }));
+    });
+    if (!oddsWorker) return;
+
+    requested.add(race.id);
+    const request: OddsWorkerRequest = {
+      race,
+      simulations: ODDS_CONFIG.SIMULATIONS,
+      batchSize: ODDS_CONFIG.BATCH_SIZE,
+    };
+    oddsWorker.postMessage(request);
+  },
+
+  getBook: (race) => {
+    const probabilities = get().probabilities[race.id];
+    const cached = books.get(race.id);
+    if (cached && cached.probabilities === probabilities) return cached.book;
+
+    const book = createBook(race, probabilities);
+    books.set(race.id, { probabilities, book });
+    return book;
+  },
+
+  getWinOdds: (horse, race) => {
+    return getBookPrice(get().getBook(race), 'win', [horse.id]) ?? ODDS_CONFIG.MAX_ODDS;
+  },
+
+  reset: () => {
+    worker?.terminate();
+    worker = null;
+    requested.clear();
+    books.clear();
+    set({ probabilities: {} });
+  },
+}));
@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Horse, Race } from '@/types';
+import { generateUpcomingRaces } from '@/utils/raceScheduler';
+
+// Races kept on the card, enough for a pick 6
+const UPCOMING_RACES = 6;
+
+interface ScheduleState {
+  // Upcoming races, in running order. Kept across reloads so bets on later
+  // races stay attached to them.
+  races: Race[];
+
+  // Top the card up to the full number of upcoming races
+  fillSchedule: (horses: Horse[]) => void;
+
+  // Take a race off the card once it has been run
+  completeRace: (raceId: string) => void;
+
+  // Reset
+  reset: () => void;
+}
+
+export const useScheduleStore = create<ScheduleState>()(
+  persist(
+    (set, get) => ({
+      races: [],
+
+      fillSchedule: (horses) => {
+        const needed = UPCOMING_RACES - get().races.length;
+        if (needed <= 0 || horses.length === 0) return;
+
+        set((state) => ({
+          races: [...state.races, ...generateUpcomingRaces(horses, needed)],
+        }));
+      },
+
+      completeRace: (raceId) => {
+        set((state) => ({
+          races: state.races.filter((race) => race.id !== raceId),
+        }));
+      },
+
+      reset: () => {
+        set({ races: [] });
+      },
+    }),
+    {
+      name: 'turf-sprint-schedule',
+    }
+  )
+);
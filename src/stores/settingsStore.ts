@@ -0,0 +1,24 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { OddsFormat } from '@/types';
+
+interface SettingsState {
+  // How prices are shown everywhere odds appear
+  oddsFormat: OddsFormat;
+  setOddsFormat: (format: OddsFormat) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      oddsFormat: 'decimal',
+
+      setOddsFormat: (format) => {
+        set({ oddsFormat: format });
+      },
+    }),
+    {
+      name: 'turf-sprint-settings',
+    }
+  )
+);
@@ -0,0 +1,73 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { BetType, Book, Race, RaceResult, Tote, ToteDividends } from '@/types';
+import { addToPool, createTote, declareDividends, seedCrowdMoney } from '@/utils/tote';
+
+interface ToteState {
+  // Live pools by race id
+  totes: Record<string, Tote>;
+
+  // Declared dividends by race id
+  dividends: Record<string, ToteDividends>;
+
+  // Open a race's pools with the crowd's money, if not already open
+  openPools: (race: Race, book: Book) => void;
+
+  // Add a player's stake to a pool, or withdraw it with a negative amount
+  addStake: (raceId: string, market: BetType, horseIds: string[], amount: number) => void;
+
+  // Close a race's pools and declare its dividends
+  declare: (raceId: string, results: RaceResult[]) => ToteDividends | undefined;
+
+  // Reset
+  reset: () => void;
+}
+
+export const useToteStore = create<ToteState>()(
+  persist(
+    (set, get) => ({
+      totes: {},
+      dividends: {},
+
+      openPools: (race, book) => {
+        if (get().totes[race.id]) return;
+
+        set((state) => ({
+          totes: { ...state.totes, [race.id]: seedCrowdMoney(createTote(race), race, book) },
+        }));
+      },
+
+      addStake: (raceId, market, horseIds, amount) => {
+        const tote = get().totes[raceId];
+        if (!tote) return;
+
+        set((state) => ({
+          totes: { ...state.totes, [raceId]: addToPool(tote, market, horseIds, amount) },
+        }));
+      },
+
+      declare: (raceId, results) => {
+        const tote = get().totes[raceId];
+        if (!tote) return undefined;
+
+        // The race's pools close once its dividends are declared
+        const dividends = declareDividends(tote, results);
+        set((state) => {
+          const { [raceId]: _closed, ...totes } = state.totes;
+          return { totes, dividends: { ...state.dividends, [raceId]: dividends } };
+        });
+        return dividends;
+      },
+
+      reset: () => {
+        set({ totes: {}, dividends: {} });
+      },
+    }),
+    {
+      name: 'turf-sprint-tote',
+      // Open pools are kept across reloads so tote bets placed before one
+      // are still in them when the race is declared
+      partialize: (state) => ({ totes: state.totes }),
+    }
+  )
+);
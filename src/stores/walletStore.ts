@@ -6,6 +6,9 @@ import { walletStorage } from '@/utils/localStorage';
 interface WalletState extends Wallet {
   // Update balance
   updateBalance: (amount: number) => void;
+
+  // Return a cancelled stake, reversing the loss recorded when it was placed
+  refundStake: (amount: number) => void;
   
   // Claim daily reward
   claimDailyReward: () => { success: boolean; message: string };
@@ -55,6 +58,17 @@ export const useWalletStore = create<WalletState>()(
         walletStorage.updateBalance(amount);
       },
 
+      refundStake: (amount) => {
+        const state = get();
+
+        set({
+          balance: state.balance + amount,
+          totalLosses: Math.max(0, state.totalLosses - amount),
+        });
+
+        walletStorage.refund(amount);
+      },
+
       claimDailyReward: () => {
         const state = get();
         const now = Date.now();
@@ -1,6 +1,8 @@
 // Horse Types
 export type TrackSurface = 'firm' | 'soft' | 'heavy';
 export type Weather = 'clear' | 'rain' | 'muddy';
+export type RunningStyle = 'front-runner' | 'stalker' | 'closer';
+export type DistanceBand = 'sprint' | 'mile' | 'route';
 
 export interface Horse {
   id: string;
@@ -15,6 +17,8 @@ export interface Horse {
   // Performance
   trackPreference: TrackSurface;
   weatherModifier: number;
+  runningStyle: RunningStyle;
+  optimalTrip: TripRange; // Distances the horse is best suited to
   
   // Historical
   raceHistory: RaceResult[];
@@ -25,6 +29,11 @@ export interface Horse {
   spriteConfig: SpriteConfig;
 }
 
+export interface TripRange {
+  min: number; // Metres
+  max: number; // Metres
+}
+
 export interface SpriteConfig {
   width: number;
   height: number;
@@ -32,14 +41,29 @@ export interface SpriteConfig {
   pattern?: string;
 }
 
+// Track Types
+export interface Track {
+  id: string;
+  name: string;
+  // Draw bias strength by distance: positive favours low gates, negative high gates
+  drawBias: Record<DistanceBand, number>;
+}
+
 // Race Types
+export type RaceType = 'handicap' | 'stakes';
+
 export interface Race {
   id: string;
   horses: Horse[];
+  track: string; // Track id
+  draw: Record<string, number>; // Starting gate (1 is the rail) by horse id
   trackSurface: TrackSurface;
   weather: Weather;
   distance: number;
+  raceType: RaceType; // Handicaps pay more each-way places in big fields
+  seed: number; // Drives all randomness in the race simulation
   status: 'scheduled' | 'in-progress' | 'completed';
+  scheduledAt: number; // When the race was put on the card; its market moves from then
   startTime: number;
   results?: RaceResult[];
 }
@@ -47,27 +71,208 @@ export interface Race {
 export interface RaceResult {
   horseId: string;
   position: number;
-  time: number;
+  time: number; // Finish time in ms
   finalSpeed: number;
+  margin: number; // Lengths behind the horse in front (0 for the winner)
+  deadHeat?: boolean; // Shares its position with another horse
+  sectionals: Sectionals;
+}
+
+// A completed race recorded compactly: the seed and field reproduce every frame
+export interface RaceReplay {
+  raceId: string;
+  race: Race;
+  recordedAt: number;
+}
+
+export interface PhotoFinish {
+  time: number; // The instant the first horse reached the line, in ms
+  horseIds: string[]; // Horses involved in the photo, in finishing order
+  positions: { horseId: string; position: number }[]; // Track fraction of every horse at that instant
+  deadHeat: boolean;
+}
+
+export interface SectionalSplit {
+  distance: number; // Metres from the start at the end of this split
+  time: number; // Cumulative time in ms when the marker was passed
+  split: number; // Time in ms taken for this split alone
+}
+
+export interface RunningCall {
+  label: string; // e.g. '1/4', '1/2', '3/4'
+  distance: number; // Metres from the start
+  position: number; // Running position at the call
+}
+
+export interface Sectionals {
+  splits: SectionalSplit[];
+  calls: RunningCall[];
 }
 
 export interface RaceConditions {
   trackSurface: TrackSurface;
   weather: Weather;
   distance: number;
+  track: string; // Track id, for the draw bias
+  fieldSize: number;
+}
+
+// A horse's expected performance under some race conditions
+export interface RatedPerformance {
+  base: number; // From the horse's stats alone
+  going: number; // Multiplier for the ground
+  draw: number; // Multiplier for the starting gate
+  trip: number; // Multiplier for the distance
+  rating: number; // Base with every multiplier applied
+}
+
+// Odds Types
+export type OddsMode = 'formula' | 'simulation';
+
+// How prices are shown to the player
+export type OddsFormat = 'decimal' | 'fractional' | 'american' | 'probability';
+
+export interface RunnerProbabilities {
+  win: number;
+  place: number; // Finishing in the first two
+  show: number; // Finishing in the first three
+}
+
+// Finishing probabilities estimated by simulating a race many times
+export interface RaceProbabilities {
+  raceId: string;
+  simulations: number; // Races simulated so far
+  runners: Record<string, RunnerProbabilities>; // By horse id
+  complete: boolean; // False while estimates are still being refined
 }
 
 // Betting Types
-export type BetType = 'win' | 'place' | 'show' | 'exacta';
+export type BetType =
+  | 'win'
+  | 'place'
+  | 'show'
+  | 'exacta'
+  | 'trifecta'
+  | 'superfecta'
+  | 'quinella'
+  | 'first-four';
+
+// How an exotic selection expands into lines: a single line, every order of
+// the chosen horses, or bankers fixed with the others filling the rest
+export type CombinationKind = 'straight' | 'box' | 'banker';
+
+export interface BookPrice {
+  horseIds: string[]; // One horse, or the finishing order for exotics
+  probability: number; // Fair probability before the margin
+  odds: number; // Decimal odds offered
+}
+
+export interface MarketBook {
+  market: BetType;
+  places: number; // Places the market pays, so fair probabilities sum to this
+  margin: number; // Target book percentage, as a fraction
+  bookPercentage: number; // Actual book percentage of the prices offered
+  prices: BookPrice[];
+}
+
+// A full price list for a race across every market
+export interface Book {
+  raceId: string;
+  source: OddsMode; // Where the probabilities came from
+  markets: Record<BetType, MarketBook>;
+}
+
+// Pre-race market for a race's fixed odds, drifting from the book as money comes in
+export interface Market {
+  raceId: string;
+  tick: number; // Market moves so far
+  signals: Record<string, number>; // Hidden form signal by horse id, from -1 to 1
+  drift: Record<string, number>; // Log change in each horse's chance from market money since it opened
+  playerStakes: Record<string, number>; // Credits the player has at fixed odds, by horse id
+  opening: Book; // Book the market moves from
+  book: Book; // Current prices, after the drift
+  history: Record<string, number[]>; // Win price at each move, by horse id
+  closedAt?: number; // When the market closed, if the race went off before its start time
+}
+
+// Pari-mutuel pool for one bet type. Stakes are keyed by selection, so
+// exotics are keyed by their finishing order.
+export interface TotePool {
+  market: BetType;
+  places: number;
+  total: number;
+  stakes: Record<string, number>;
+}
+
+export interface Tote {
+  raceId: string;
+  pools: Record<BetType, TotePool>;
+}
+
+// Declared dividends per unit staked, including the stake, by selection
+export interface ToteDividends {
+  raceId: string;
+  dividends: Record<BetType, Record<string, number>>;
+}
+
+// Fixed odds pay the price taken; tote bets pay the declared dividend
+export type WagerMode = 'fixed' | 'tote';
+
+// Place terms for each-way bets: the places paid and the fraction of the win odds
+export interface EachWayTerms {
+  places: number;
+  fraction: number;
+}
+
+// An each-way bet is placed as a win part and a place part with equal stakes,
+// linked by a shared id
+export interface EachWayPart {
+  id: string;
+  part: 'win' | 'place';
+  terms: EachWayTerms;
+}
+
+// Bets are pending until settled as won or lost, unless cancelled for a
+// refund before the cut-off or cashed out while the race is running
+export type BetStatus = 'pending' | 'cancelled' | 'cashed-out' | 'won' | 'lost';
 
 export interface Bet {
   id: string;
   raceId: string;
   type: BetType;
+  mode: WagerMode;
   horseIds: string[];
   amount: number;
+  odds: number; // Price taken when the bet was placed
+  eachWay?: EachWayPart; // Set on both parts of an each-way bet
   potentialPayout: number;
   winnings: number;
+  status: BetStatus;
+  placedAt: number;
+  lockedAt?: number; // When the race started; locked bets can no longer be cancelled
+  inPlayProgress?: number; // Race progress when struck in-running, at the in-play price in odds
+}
+
+// Bets spanning several races, settled leg by leg as each race is run
+export type MultiBetType = 'daily-double' | 'pick-3' | 'pick-4' | 'pick-6' | 'accumulator';
+
+export interface MultiBetLeg {
+  raceId: string;
+  horseIds: string[]; // Horses covered to win this race
+  odds: Record<string, number>; // Win price taken for each horse
+  status: 'pending' | 'won' | 'lost';
+  returns?: number; // Multiplier the leg pays once won, after any dead heat
+}
+
+export interface MultiBet {
+  id: string;
+  type: MultiBetType;
+  legs: MultiBetLeg[];
+  stake: number; // Stake on each line
+  lines: number; // Combinations of one horse from every leg
+  amount: number; // Total cost of every line
+  potentialPayout: number; // Return if the longest priced line comes in
+  winnings: number;
   status: 'pending' | 'won' | 'lost';
   placedAt: number;
 }
@@ -121,7 +326,7 @@ export interface UserStatistics {
 }
 
 // Game State Types
-export type GameScreen = 'lobby' | 'form' | 'race' | 'results' | 'photo-finish';
+export type GameScreen = 'lobby' | 'form' | 'race' | 'results' | 'photo-finish' | 'replay';
 
 export interface GameState {
   currentScreen: GameScreen;
@@ -147,3 +352,70 @@ export const ECONOMY_CONFIG = {
   MIN_BET: 10,
   MAX_BET: 10000,
 } as const;
+
+// Betting Constants
+export const BETTING_CONFIG = {
+  CANCEL_CUTOFF_MS: 30 * 1000, // Cancellation closes this long before a race's start time
+} as const;
+
+// Cash-out Constants
+export const CASH_OUT_CONFIG = {
+  MARGIN: 0.1, // Share of a bet's fair value kept when it is cashed out
+  UNCERTAINTY: 0.15, // Spread of projected finishing times, relative to the average time still to run
+  SUSPEND_PROGRESS: 0.95, // Offers are withdrawn once the leader is this close to the line
+} as const;
+
+// In-play Constants
+export const IN_PLAY_CONFIG = {
+  MARGIN: 1.2, // Book percentage of in-play win prices, as a fraction
+  UPDATE_MS: 250, // Race time between updates of in-play prices and cash-out offers
+  SUSPEND_PROGRESS: 0.5, // Markets close once the leader has run this far
+} as const;
+
+// Odds Constants
+export const ODDS_CONFIG = {
+  MODE: 'simulation' as OddsMode,
+  SIMULATIONS: 2000, // Races simulated per market
+  BATCH_SIZE: 250, // Simulations between progress updates
+  // Book percentage for each market, as a fraction
+  MARGINS: {
+    win: 1.15,
+    place: 1.12,
+    show: 1.1,
+    exacta: 1.25,
+    trifecta: 1.3,
+    superfecta: 1.35,
+    quinella: 1.2,
+    'first-four': 1.3,
+  },
+  MAX_ODDS: 200,
+  MAX_EXOTIC_ODDS: 5000,
+} as const;
+
+// Market Constants
+export const MARKET_CONFIG = {
+  TICK_MS: 2000, // Time between market moves, until the market settles at the off
+  VOLATILITY: 0.04, // Random money flow per move, in log chance
+  SIGNAL_WEIGHT: 0.015, // Move per tick towards the hidden form signal
+  PLAYER_IMPACT: 0.0001, // Move per credit the player stakes
+  MAX_DRIFT: 0.7, // Largest move from the opening chance either way
+} as const;
+
+// Tote Constants
+export const TOTE_CONFIG = {
+  // Share of each pool deducted before dividends are paid
+  TAKEOUT: {
+    win: 0.15,
+    place: 0.18,
+    show: 0.18,
+    exacta: 0.25,
+    trifecta: 0.25,
+    superfecta: 0.25,
+    quinella: 0.2,
+    'first-four': 0.25,
+  },
+  CROWD_BETTORS: 400, // Simulated punters seeding the pools
+  CROWD_MIN_STAKE: 10,
+  CROWD_MAX_STAKE: 200,
+  MIN_DIVIDEND: 1.05, // Paid on a winning selection even if the pool can't cover it
+} as const;
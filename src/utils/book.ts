@@ -0,0 +1,239 @@
+import { BetType, Book, BookPrice, MarketBook, ODDS_CONFIG, Race, RaceProbabilities } from '@/types';
+import { calculateOdds } from './oddsCalculator';
+import { BET_SELECTIONS, getCombinations, getPermutations, isExotic } from './exotics';
+
+/**
+ * Bookmaker's book - prices every market in a race from one set of
+ * probabilities, normalised so each market's book comes to its target margin
+ */
+
+/**
+ * Places paid by each market
+ */
+const MARKET_PLACES: Record<BetType, number> = {
+  win: 1,
+  place: 2,
+  show: 3,
+  exacta: 1,
+  trifecta: 1,
+  superfecta: 1,
+  quinella: 1,
+  'first-four': 1,
+};
+
+/**
+ * Smallest probability a selection is priced at, so outsiders get a finite price
+ */
+const MIN_PROBABILITY = 0.0025;
+
+/**
+ * Rescale probabilities so they sum to a total
+ */
+function normalise(
+  probabilities: Record<string, number>,
+  total: number,
+  floor: number = MIN_PROBABILITY
+): Record<string, number> {
+  const floored = Object.fromEntries(
+    Object.entries(probabilities).map(([id, p]) => [id, Math.max(p, floor)])
+  );
+  const sum = Object.values(floored).reduce((acc, p) => acc + p, 0);
+
+  return Object.fromEntries(Object.entries(floored).map(([id, p]) => [id, (p / sum) * total]));
+}
+
+/**
+ * Win probabilities implied by the formula prices, which on their own
+ * don't sum to 1
+ */
+function getFormulaWinProbabilities(race: Race): Record<string, number> {
+  return normalise(
+    Object.fromEntries(race.horses.map((horse) => [horse.id, 1 / calculateOdds(horse, race)])),
+    1
+  );
+}
+
+/**
+ * Probability a horse finishes within the first few places, from win
+ * probabilities alone (the Harville model)
+ */
+export function getHarvilleFinish(
+  win: Record<string, number>,
+  horseId: string,
+  places: number,
+  placed: string[] = []
+): number {
+  const taken = placed.reduce((sum, id) => sum + win[id], 0);
+  const share = (id: string) => (taken < 1 ? win[id] / (1 - taken) : 0);
+
+  let probability = share(horseId);
+  if (places < 2) return probability;
+
+  Object.keys(win)
+    .filter((id) => id !== horseId && !placed.includes(id))
+    .forEach((id) => {
+      probability += share(id) * getHarvilleFinish(win, horseId, places - 1, [...placed, id]);
+    });
+
+  return probability;
+}
+
+/**
+ * Probability horses finish in exactly the order given, from win
+ * probabilities alone (the Harville model)
+ */
+export function getHarvilleOrder(win: Record<string, number>, order: string[]): number {
+  let taken = 0;
+
+  return order.reduce((probability, horseId) => {
+    const share = taken < 1 ? win[horseId] / (1 - taken) : 0;
+    taken += win[horseId];
+    return probability * share;
+  }, 1);
+}
+
+/**
+ * Fair probabilities of every line in an exotic market. Unordered lines
+ * cover every order of their horses.
+ */
+function getExoticProbabilities(win: Record<string, number>, market: BetType): Record<string, number> {
+  const { horses, ordered } = BET_SELECTIONS[market];
+  const ids = Object.keys(win).sort();
+  const lines = ordered ? getPermutations(ids, horses) : getCombinations(ids, horses);
+
+  return Object.fromEntries(lines.map((line) => [
+    line.join('|'),
+    ordered
+      ? getHarvilleOrder(win, line)
+      : getPermutations(line, horses).reduce((sum, order) => sum + getHarvilleOrder(win, order), 0),
+  ]));
+}
+
+/**
+ * Price a market to its margin
+ */
+export function priceMarket(
+  market: BetType,
+  fair: { horseIds: string[]; probability: number }[],
+  margin: number,
+  places: number
+): MarketBook {
+  const maxOdds = isExotic(market) ? ODDS_CONFIG.MAX_EXOTIC_ODDS : ODDS_CONFIG.MAX_ODDS;
+  const prices: BookPrice[] = fair.map(({ horseIds, probability }) => {
+    const odds = Math.min(maxOdds, Math.max(1.01, 1 / (probability * margin)));
+    return { horseIds, probability, odds: Math.round(odds * 100) / 100 };
+  });
+
+  return {
+    market,
+    places,
+    margin,
+    bookPercentage: getBookPercentage(prices, places),
+    prices,
+  };
+}
+
+/**
+ * Book percentage of a set of prices, per place paid. 100 is a fair book;
+ * anything over is the house edge.
+ */
+export function getBookPercentage(prices: Pick<BookPrice, 'odds'>[], places: number = 1): number {
+  const implied = prices.reduce((sum, price) => sum + 1 / price.odds, 0);
+  return (implied / places) * 100;
+}
+
+/**
+ * Make a book for a race. Simulated probabilities are used when available,
+ * otherwise the formula prices are normalised into probabilities.
+ */
+export function createBook(
+  race: Race,
+  probabilities?: RaceProbabilities,
+  margins: Record<BetType, number> = ODDS_CONFIG.MARGINS
+): Book {
+  const fieldSize = race.horses.length;
+  const placesFor = (market: BetType) => Math.min(MARKET_PLACES[market], fieldSize);
+  const fromSimulation = (market: 'win' | 'place' | 'show') => normalise(
+    Object.fromEntries(race.horses.map((horse) => [horse.id, probabilities?.runners[horse.id]?.[market] ?? 0])),
+    placesFor(market)
+  );
+
+  const win = probabilities ? fromSimulation('win') : getFormulaWinProbabilities(race);
+  const finish = (market: 'place' | 'show') => probabilities
+    ? fromSimulation(market)
+    : Object.fromEntries(race.horses.map((horse) => [horse.id, getHarvilleFinish(win, horse.id, placesFor(market))]));
+
+  const single = (market: 'win' | 'place' | 'show', fair: Record<string, number>) => priceMarket(
+    market,
+    race.horses.map((horse) => ({ horseIds: [horse.id], probability: fair[horse.id] })),
+    margins[market],
+    placesFor(market)
+  );
+
+  // Exotic lines from the Harville model: each place in turn from the rest.
+  // The floor is shared across the lines, as exotic markets have so many.
+  const exotic = (market: BetType) => {
+    const lines = getExoticProbabilities(win, market);
+    const floor = MIN_PROBABILITY / Math.max(1, Object.keys(lines).length);
+
+    return priceMarket(
+      market,
+      Object.entries(normalise(lines, placesFor(market), floor)).map(([key, probability]) => ({
+        horseIds: key.split('|'),
+        probability,
+      })),
+      margins[market],
+      placesFor(market)
+    );
+  };
+
+  return {
+    raceId: race.id,
+    source: probabilities ? 'simulation' : 'formula',
+    markets: {
+      win: single('win', win),
+      place: single('place', finish('place')),
+      show: single('show', finish('show')),
+      ...Object.fromEntries((Object.keys(MARKET_PLACES) as BetType[]).filter(isExotic).map((market) => [
+        market,
+        exotic(market),
+      ])),
+    } as Record<BetType, MarketBook>,
+  };
+}
+
+/**
+ * Reprice a book after the market moves. Each selection's chance is scaled by
+ * the weights of its horses, then every market is renormalised to its margin.
+ */
+export function adjustBook(book: Book, weights: Record<string, number>): Book {
+  const reprice = ({ market, prices, margin, places }: MarketBook): MarketBook => {
+    const weighted = prices.map((price) =>
+      price.probability * price.horseIds.reduce((weight, id) => weight * (weights[id] ?? 1), 1)
+    );
+    const sum = weighted.reduce((acc, p) => acc + p, 0);
+
+    return priceMarket(
+      market,
+      prices.map((price, i) => ({ horseIds: price.horseIds, probability: (weighted[i] / sum) * places })),
+      margin,
+      places
+    );
+  };
+
+  return {
+    ...book,
+    markets: Object.fromEntries(
+      Object.entries(book.markets).map(([market, marketBook]) => [market, reprice(marketBook)])
+    ) as Record<BetType, MarketBook>,
+  };
+}
+
+/**
+ * Price of a selection in a book, or undefined if it isn't offered
+ */
+export function getBookPrice(book: Book, market: BetType, horseIds: string[]): number | undefined {
+  return book.markets[market].prices
+    .find((price) => price.horseIds.length === horseIds.length && price.horseIds.every((id, i) => id === horseIds[i]))
+    ?.odds;
+}
@@ -0,0 +1,110 @@
+import { Bet, Book, CASH_OUT_CONFIG } from '@/types';
+import { HorsePosition } from '@/game/engine/RaceEngine';
+import { getHarvilleFinish, getHarvilleOrder } from './book';
+import { BET_SELECTIONS, getPermutations } from './exotics';
+import { PAID_PLACES } from './settlement';
+
+/**
+ * In-running cash-out - pending bets are valued from live win probabilities
+ * while the race is run, and can be settled early for that value less a margin
+ */
+
+/**
+ * Share of a runner's pace still to come from a full tank. A tired horse is
+ * expected to fade in the closing stages.
+ */
+const STAMINA_WEIGHT = 0.2;
+
+/**
+ * Fair win probabilities by horse id from a book's win market
+ */
+export function getFairWinProbabilities(book: Book): Record<string, number> {
+  return Object.fromEntries(book.markets.win.prices.map((price) => [price.horseIds[0], price.probability]));
+}
+
+/**
+ * Offers are withdrawn as the leader nears the line and the result is all
+ * but known
+ */
+export function isCashOutSuspended(positions: HorsePosition[]): boolean {
+  return positions.some((p) => p.finished || p.position >= CASH_OUT_CONFIG.SUSPEND_PROGRESS);
+}
+
+/**
+ * Live win probabilities from the runners' positions and pace. Each runner's
+ * time to the line is projected from the distance left and its current speed;
+ * the shorter the projection against the field's, the likelier a win. The
+ * estimate is blended with the pre-race chances, which count for less the
+ * further the race has been run.
+ */
+export function getLiveWinProbabilities(
+  positions: HorsePosition[],
+  prior: Record<string, number>
+): Record<string, number> {
+  const progress = Math.max(0, ...positions.map((p) => p.position));
+  const projected = positions.map((p) => {
+    const pace = p.velocity * (1 - STAMINA_WEIGHT + STAMINA_WEIGHT * Math.min(100, p.stamina) / 100);
+    return { horseId: p.horseId, time: pace > 0 ? (1 - p.position) / pace : Infinity };
+  });
+
+  const finite = projected.filter((p) => Number.isFinite(p.time));
+  if (progress === 0 || finite.length === 0) return prior;
+
+  const fastest = Math.min(...finite.map((p) => p.time));
+  const average = finite.reduce((sum, p) => sum + p.time, 0) / finite.length;
+  const spread = Math.max(CASH_OUT_CONFIG.UNCERTAINTY * average, Number.EPSILON);
+
+  const blended = projected.map(({ horseId, time }) => {
+    const live = Number.isFinite(time) ? Math.exp(-(time - fastest) / spread) : 0;
+    const before = prior[horseId] ?? 0;
+    return [horseId, live ** progress * before ** (1 - progress)] as const;
+  });
+
+  const total = blended.reduce((sum, [, weight]) => sum + weight, 0);
+  return total > 0 ? Object.fromEntries(blended.map(([id, weight]) => [id, weight / total])) : prior;
+}
+
+/**
+ * Whether a bet can be cashed out. Only pending fixed odds bets qualify: a
+ * tote bet returns a dividend not yet declared and its stake stays in the pool.
+ */
+export function isCashOutAvailable(bet: Pick<Bet, 'mode' | 'status'>): boolean {
+  return bet.mode === 'fixed' && bet.status === 'pending';
+}
+
+/**
+ * Probability a bet comes in, from win probabilities (the Harville model)
+ */
+export function getBetProbability(
+  bet: Pick<Bet, 'type' | 'horseIds' | 'eachWay'>,
+  win: Record<string, number>
+): number {
+  if (bet.eachWay?.part === 'place') {
+    return getHarvilleFinish(win, bet.horseIds[0], bet.eachWay.terms.places);
+  }
+
+  switch (bet.type) {
+    case 'win':
+    case 'place':
+    case 'show':
+      return getHarvilleFinish(win, bet.horseIds[0], PAID_PLACES[bet.type]);
+    default: {
+      const { horses, ordered } = BET_SELECTIONS[bet.type];
+      return ordered
+        ? getHarvilleOrder(win, bet.horseIds)
+        : getPermutations(bet.horseIds, horses).reduce((sum, order) => sum + getHarvilleOrder(win, order), 0);
+    }
+  }
+}
+
+/**
+ * Amount offered to settle a bet now: its expected return less the margin,
+ * rounded down to the cent
+ */
+export function getCashOutOffer(
+  bet: Pick<Bet, 'type' | 'horseIds' | 'eachWay' | 'potentialPayout'>,
+  win: Record<string, number>
+): number {
+  const value = bet.potentialPayout * getBetProbability(bet, win) * (1 - CASH_OUT_CONFIG.MARGIN);
+  return Math.floor(Math.min(value, bet.potentialPayout) * 100) / 100;
+}
@@ -0,0 +1,73 @@
+import { DistanceBand, Horse, Race, Track } from '@/types';
+import { RandomSource, shuffle } from './random';
+
+/**
+ * Tracks races are run at, each with its own draw bias
+ */
+export const TRACKS: Track[] = [
+  { id: 'meadowbrook', name: 'Meadowbrook Park', drawBias: { sprint: 0.02, mile: 0.01, route: 0 } },
+  { id: 'riverside', name: 'Riverside Downs', drawBias: { sprint: -0.015, mile: -0.005, route: 0.005 } },
+  { id: 'kingsgate', name: 'Kingsgate', drawBias: { sprint: 0.005, mile: 0, route: -0.01 } },
+];
+
+/**
+ * Look up a track by id, falling back to the first track
+ */
+export function getTrack(trackId: string | undefined): Track {
+  return TRACKS.find((track) => track.id === trackId) ?? TRACKS[0];
+}
+
+/**
+ * Distance band a race falls into
+ */
+export function getDistanceBand(distance: number): DistanceBand {
+  if (distance < 1300) return 'sprint';
+  if (distance < 1700) return 'mile';
+  return 'route';
+}
+
+/**
+ * Barrier draw - assigns each horse a starting gate, 1 being the rail
+ */
+export function drawGates(horses: Horse[], random: RandomSource): Record<string, number> {
+  return Object.fromEntries(shuffle(horses, random).map((horse, index) => [horse.id, index + 1]));
+}
+
+/**
+ * Starting gate for a horse. Races recorded before the draw existed
+ * started in field order.
+ */
+export function getGate(race: Race, horseId: string): number {
+  return race.draw?.[horseId] ?? race.horses.findIndex((h) => h.id === horseId) + 1;
+}
+
+/**
+ * Performance multiplier for a gate at a track and distance.
+ * Scales linearly from the rail to the widest gate.
+ */
+export function getGateBias(trackId: string, distance: number, gate: number, fieldSize: number): number {
+  const strength = getTrack(trackId).drawBias[getDistanceBand(distance)];
+  if (fieldSize < 2) return 1;
+
+  // +1 on the rail, -1 in the widest gate
+  const offset = 1 - (2 * (gate - 1)) / (fieldSize - 1);
+  return 1 + strength * offset;
+}
+
+/**
+ * Performance multiplier from a horse's draw in a race
+ */
+export function getDrawBias(race: Race, horseId: string): number {
+  return getGateBias(race.track, race.distance, getGate(race, horseId), race.horses.length);
+}
+
+/**
+ * Short description of the draw bias for a race
+ */
+export function describeDrawBias(race: Race): string {
+  const strength = getTrack(race.track).drawBias[getDistanceBand(race.distance)];
+
+  if (Math.abs(strength) < 0.005) return 'No draw bias';
+  const side = strength > 0 ? 'Low' : 'High';
+  return Math.abs(strength) >= 0.015 ? `${side} draws strongly favoured` : `${side} draws favoured`;
+}
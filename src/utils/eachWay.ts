@@ -0,0 +1,39 @@
+import { EachWayTerms, Race } from '@/types';
+
+/**
+ * Each-way betting - a win bet and a place bet of the same stake on one
+ * horse. The place part pays a fraction of the win odds if the horse finishes
+ * within the places paid, under the standard terms for the field size.
+ */
+
+// Fields smaller than this are win only
+const MIN_EACH_WAY_RUNNERS = 5;
+
+/**
+ * Place terms for a race, or undefined if the field is too small to bet
+ * each-way. Big-field handicaps pay an extra place at the better fraction.
+ */
+export function getEachWayTerms(race: Pick<Race, 'horses' | 'raceType'>): EachWayTerms | undefined {
+  const runners = race.horses.length;
+
+  if (runners < MIN_EACH_WAY_RUNNERS) return undefined;
+  if (race.raceType === 'handicap' && runners >= 16) return { places: 4, fraction: 1 / 4 };
+  if (race.raceType === 'handicap' && runners >= 12) return { places: 3, fraction: 1 / 4 };
+  if (runners >= 8) return { places: 3, fraction: 1 / 5 };
+  return { places: 2, fraction: 1 / 4 };
+}
+
+/**
+ * Describe place terms, e.g. "1/4 odds, 2 places"
+ */
+export function formatEachWayTerms(terms: EachWayTerms): string {
+  return `1/${Math.round(1 / terms.fraction)} odds, ${terms.places} places`;
+}
+
+/**
+ * Decimal odds paid by the place part, from the win odds taken
+ */
+export function getEachWayPlaceOdds(winOdds: number, terms: EachWayTerms): number {
+  return 1 + (winOdds - 1) * terms.fraction;
+}
+
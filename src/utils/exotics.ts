@@ -0,0 +1,106 @@
+import { BetType, CombinationKind } from '@/types';
+
+/**
+ * Exotic bets - selections of several horses, and the box and banker
+ * combinations that expand into many lines of one stake each.
+ */
+
+export interface BetSelection {
+  label: string;
+  horses: number; // Horses named on each line
+  ordered: boolean; // Whether they must finish in the order named
+}
+
+/**
+ * What each bet type asks for. Quinella and the boxed first four are the
+ * first two and first four in any order; the superfecta is the first four
+ * in order.
+ */
+export const BET_SELECTIONS: Record<BetType, BetSelection> = {
+  win: { label: 'Win', horses: 1, ordered: true },
+  place: { label: 'Place', horses: 1, ordered: true },
+  show: { label: 'Show', horses: 1, ordered: true },
+  exacta: { label: 'Exacta', horses: 2, ordered: true },
+  trifecta: { label: 'Trifecta', horses: 3, ordered: true },
+  superfecta: { label: 'Superfecta', horses: 4, ordered: true },
+  quinella: { label: 'Quinella', horses: 2, ordered: false },
+  'first-four': { label: 'Boxed First Four', horses: 4, ordered: false },
+};
+
+/**
+ * Whether a bet type names more than one horse
+ */
+export function isExotic(betType: BetType): boolean {
+  return BET_SELECTIONS[betType].horses > 1;
+}
+
+/**
+ * Canonical form of a line. Unordered lines are sorted, so the same horses
+ * always make the same line whatever order they were picked in.
+ */
+export function normaliseLine(betType: BetType, horseIds: string[]): string[] {
+  return BET_SELECTIONS[betType].ordered ? horseIds : [...horseIds].sort();
+}
+
+/**
+ * Every ordering of `size` horses from a list
+ */
+export function getPermutations(horseIds: string[], size: number): string[][] {
+  if (size === 0) return [[]];
+
+  return horseIds.flatMap((id) =>
+    getPermutations(horseIds.filter((other) => other !== id), size - 1).map((rest) => [id, ...rest])
+  );
+}
+
+/**
+ * Every set of `size` horses from a list, in list order
+ */
+export function getCombinations(horseIds: string[], size: number): string[][] {
+  if (size === 0) return [[]];
+
+  return horseIds.flatMap((id, i) =>
+    getCombinations(horseIds.slice(i + 1), size - 1).map((rest) => [id, ...rest])
+  );
+}
+
+/**
+ * Expand a selection into the lines it covers.
+ * - straight: the horses as named, as one line
+ * - box: every line that can be made from the horses
+ * - banker: the bankers on every line, in the order named for ordered bets,
+ *   with the other horses filling the remaining places. Bankers with every
+ *   other runner is a wheel.
+ */
+export function expandLines(
+  betType: BetType,
+  kind: CombinationKind,
+  horseIds: string[],
+  bankers: string[] = []
+): string[][] {
+  const { horses, ordered } = BET_SELECTIONS[betType];
+  const distinct = (ids: string[]) => [...new Set(ids)];
+
+  switch (kind) {
+    case 'straight': {
+      const line = distinct(horseIds);
+      return line.length === horses ? [normaliseLine(betType, line)] : [];
+    }
+    case 'box': {
+      const field = distinct(horseIds);
+      const lines = ordered ? getPermutations(field, horses) : getCombinations(field, horses);
+      return lines.map((line) => normaliseLine(betType, line));
+    }
+    case 'banker': {
+      const fixed = distinct(bankers);
+      const others = distinct(horseIds).filter((id) => !fixed.includes(id));
+      const remaining = horses - fixed.length;
+      if (fixed.length === 0 || remaining < 0) return [];
+
+      const fillers = ordered ? getPermutations(others, remaining) : getCombinations(others, remaining);
+      return fillers.map((rest) => normaliseLine(betType, [...fixed, ...rest]));
+    }
+    default:
+      return [];
+  }
+}
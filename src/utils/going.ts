@@ -0,0 +1,73 @@
+import { Horse, TrackSurface, Weather } from '@/types';
+
+/**
+ * Going model shared by the race engine and the odds calculator, so the
+ * ground affects the simulation and the prices in exactly the same way.
+ *
+ * The going is a continuous softness index from 0 (hard) to 10 (bottomless).
+ */
+export const MAX_GOING_INDEX = 10;
+
+// Softness of each surface on a dry day
+const SURFACE_GOING: Record<TrackSurface, number> = {
+  firm: 2,
+  soft: 5.5,
+  heavy: 8.5,
+};
+
+// Softness added by the weather
+const WEATHER_GOING: Record<Weather, number> = {
+  clear: 0,
+  rain: 1,
+  muddy: 2,
+};
+
+// Bonus on a horse's ideal ground and the most it can lose away from it
+const PREFERRED_GOING_BONUS = 0.1;
+const MAX_GOING_PENALTY = 0.1;
+
+// How quickly suitability falls away from the ideal, in going units
+const GOING_TOLERANCE = 2.5;
+
+// Share of weatherModifier applied on the softest ground
+const WET_GROUND_WEIGHT = 0.5;
+
+/**
+ * Softness index for a surface in the given weather
+ */
+export function getGoingIndex(surface: TrackSurface, weather: Weather): number {
+  return Math.min(MAX_GOING_INDEX, SURFACE_GOING[surface] + WEATHER_GOING[weather]);
+}
+
+/**
+ * Official description of the going
+ */
+export function describeGoing(going: number): string {
+  if (going < 2.5) return 'Firm';
+  if (going < 4) return 'Good';
+  if (going < 5.5) return 'Good to Soft';
+  if (going < 7.5) return 'Soft';
+  return 'Heavy';
+}
+
+/**
+ * How well a horse acts on the ground, as a performance multiplier.
+ * Suitability peaks on the horse's preferred surface and tails off the
+ * further the going is from it. weatherModifier then scales how the horse
+ * copes as the ground gets wetter, and soft ground taxes horses short of
+ * stamina or acceleration.
+ */
+export function getGoingMultiplier(horse: Horse, going: number): number {
+  const distanceFromIdeal = Math.abs(going - SURFACE_GOING[horse.trackPreference]);
+  const preference = 1 + PREFERRED_GOING_BONUS
+    - (PREFERRED_GOING_BONUS + MAX_GOING_PENALTY) * (1 - Math.exp(-distanceFromIdeal / GOING_TOLERANCE));
+
+  const wetness = going / MAX_GOING_INDEX;
+  const wetGround = 1 + (horse.weatherModifier - 1) * wetness * WET_GROUND_WEIGHT;
+
+  const groundTax = 1 - wetness * (
+    0.1 * (1 - horse.stamina / 100) + 0.15 * (1 - horse.acceleration / 100)
+  );
+
+  return preference * wetGround * groundTax;
+}
@@ -0,0 +1,28 @@
+import { IN_PLAY_CONFIG, MarketBook } from '@/types';
+import { RaceSnapshot } from '@/game/engine/RaceEngine';
+import { priceMarket } from './book';
+
+/**
+ * In-play betting - a win market kept open through the early part of the
+ * race, priced from the live win probabilities at each snapshot
+ */
+
+/**
+ * Markets are suspended once the leader has run past the close, and for good
+ * once the race is over
+ */
+export function isInPlaySuspended(snapshot: RaceSnapshot): boolean {
+  return snapshot.finished || snapshot.progress >= IN_PLAY_CONFIG.SUSPEND_PROGRESS;
+}
+
+/**
+ * Price the in-play win market to its margin
+ */
+export function priceInPlay(win: Record<string, number>): MarketBook {
+  return priceMarket(
+    'win',
+    Object.entries(win).map(([horseId, probability]) => ({ horseIds: [horseId], probability })),
+    IN_PLAY_CONFIG.MARGIN,
+    1
+  );
+}
@@ -1,12 +1,16 @@
-import { Wallet, UserProgress, Bet, Horse } from '@/types';
+import { Wallet, UserProgress, Bet, Horse, RaceReplay } from '@/types';
 
 const STORAGE_KEYS = {
   WALLET: 'turf-sprint-wallet',
   USER_PROGRESS: 'turf-sprint-progress',
   BETS: 'turf-sprint-bets',
   HORSES: 'turf-sprint-horses',
+  REPLAYS: 'turf-sprint-replays',
 } as const;
 
+// Number of most recent race replays kept
+const MAX_REPLAYS = 20;
+
 // Generic storage helpers
 export const storage = {
   get<T>(key: string, defaultValue: T): T {
@@ -76,6 +80,15 @@ export const walletStorage = {
     return wallet;
   },
 
+  refund(amount: number): Wallet {
+    const wallet = this.get();
+    wallet.balance += amount;
+    wallet.totalLosses = Math.max(0, wallet.totalLosses - amount);
+
+    this.set(wallet);
+    return wallet;
+  },
+
   updateStreak(won: boolean): Wallet {
     const wallet = this.get();
 
@@ -196,5 +209,30 @@ export const horsesStorage = {
   },
 };
 
+// Race replay storage
+export const replaysStorage = {
+  get(): RaceReplay[] {
+    return storage.get<RaceReplay[]>(STORAGE_KEYS.REPLAYS, []);
+  },
+
+  set(replays: RaceReplay[]): void {
+    storage.set(STORAGE_KEYS.REPLAYS, replays);
+  },
+
+  find(raceId: string): RaceReplay | undefined {
+    return this.get().find(r => r.raceId === raceId);
+  },
+
+  add(replay: RaceReplay): void {
+    const replays = this.get().filter(r => r.raceId !== replay.raceId);
+    replays.push(replay);
+    this.set(replays.slice(-MAX_REPLAYS));
+  },
+
+  clear(): void {
+    storage.remove(STORAGE_KEYS.REPLAYS);
+  },
+};
+
 // Export all storage keys for reference
 export { STORAGE_KEYS };
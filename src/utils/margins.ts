@@ -0,0 +1,43 @@
+/**
+ * Winning margins, expressed in horse lengths as in official race results
+ */
+
+/**
+ * Length of a horse in metres, used to convert distances to lengths
+ */
+export const HORSE_LENGTH_METRES = 2.4;
+
+const FRACTIONS: Record<number, string> = {
+  0: '',
+  0.25: '¼',
+  0.5: '½',
+  0.75: '¾',
+};
+
+/**
+ * Convert a distance in metres to horse lengths
+ */
+export function metresToLengths(metres: number): number {
+  return metres / HORSE_LENGTH_METRES;
+}
+
+/**
+ * Format a margin in lengths using standard racing terms
+ * (e.g. "nose", "head", "neck", "½", "1¼", "dist")
+ */
+export function formatMargin(lengths: number): string {
+  if (lengths <= 0) return '';
+  if (lengths < 0.05) return 'nose';
+  if (lengths < 0.1) return 'short head';
+  if (lengths < 0.2) return 'head';
+  if (lengths < 0.3) return 'neck';
+  if (lengths > 30) return 'dist';
+
+  // Quarter lengths up to 2, half lengths up to 10, whole lengths beyond
+  const increment = lengths < 2 ? 0.25 : lengths < 10 ? 0.5 : 1;
+  const rounded = Math.max(0.5, Math.round(lengths / increment) * increment);
+  const whole = Math.floor(rounded);
+  const fraction = FRACTIONS[rounded - whole] ?? '';
+
+  return whole > 0 ? `${whole}${fraction}` : fraction;
+}
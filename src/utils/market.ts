@@ -0,0 +1,164 @@
+import { Book, Market, MARKET_CONFIG, Race } from '@/types';
+import { adjustBook, getBookPrice } from './book';
+import { createSeededRandom } from './random';
+
+/**
+ * Pre-race market - fixed odds drift away from the opening book as simulated
+ * money comes in, from when a race is put on the card until its start time.
+ * Moves are a mix of random money flow, smart money following each horse's
+ * hidden form signal, and the player's own stakes.
+ */
+
+// Mixed into the race seed so market moves don't follow the race's own draws
+const MARKET_SEED_SALT = 0x165667b1;
+
+/**
+ * Random source for one market move, so a race's market always moves the
+ * same way however often it is reopened
+ */
+function getMoveRandom(race: Race, tick: number) {
+  return createSeededRandom((race.seed ^ MARKET_SEED_SALT ^ Math.imul(tick + 1, 0x9e3779b1)) >>> 0);
+}
+
+/**
+ * Current win prices by horse id
+ */
+function getWinPrices(book: Book, race: Race): Record<string, number> {
+  return Object.fromEntries(race.horses.map((horse) => [horse.id, getBookPrice(book, 'win', [horse.id]) ?? 0]));
+}
+
+/**
+ * Reprice the opening book with the market's drift and the player's stakes.
+ * The player's stakes are kept apart from the drift so withdrawing one
+ * undoes its move exactly.
+ */
+function applyDrift(opening: Book, drift: Record<string, number>, playerStakes: Record<string, number>): Book {
+  return adjustBook(opening, Object.fromEntries(Object.entries(drift).map(([id, d]) => {
+    const moved = d + (playerStakes[id] ?? 0) * MARKET_CONFIG.PLAYER_IMPACT;
+    return [id, Math.exp(Math.max(-MARKET_CONFIG.MAX_DRIFT, Math.min(MARKET_CONFIG.MAX_DRIFT, moved)))];
+  })));
+}
+
+/**
+ * Open a race's market at the book's prices. Hidden form signals are drawn
+ * from the race seed and never shown to the player.
+ */
+export function createMarket(race: Race, opening: Book): Market {
+  const random = getMoveRandom(race, -1);
+
+  return {
+    raceId: race.id,
+    tick: 0,
+    signals: Object.fromEntries(race.horses.map((horse) => [horse.id, random() * 2 - 1])),
+    drift: Object.fromEntries(race.horses.map((horse) => [horse.id, 0])),
+    playerStakes: {},
+    opening,
+    book: opening,
+    history: Object.fromEntries(
+      Object.entries(getWinPrices(opening, race)).map(([id, odds]) => [id, [odds]])
+    ),
+  };
+}
+
+/**
+ * Moves the market has made by a time: one every tick from when the race was
+ * put on the card, until it settles at the start time
+ */
+export function getMarketTicks(race: Race, now: number): number {
+  const elapsed = Math.min(now, race.startTime) - race.scheduledAt;
+  return Math.max(0, Math.floor(elapsed / MARKET_CONFIG.TICK_MS));
+}
+
+/**
+ * Whether the market has settled for the off and stopped moving
+ */
+export function isMarketSettled(market: Market, race: Race): boolean {
+  return market.tick >= getMarketTicks(race, race.startTime);
+}
+
+/**
+ * Move the drift on by one tick
+ */
+function moveDrift(signals: Record<string, number>, drift: Record<string, number>, race: Race, tick: number) {
+  const random = getMoveRandom(race, tick);
+
+  return Object.fromEntries(race.horses.map((horse) => {
+    const flow = (random() * 2 - 1) * MARKET_CONFIG.VOLATILITY;
+    const smartMoney = signals[horse.id] * MARKET_CONFIG.SIGNAL_WEIGHT;
+    const moved = (drift[horse.id] ?? 0) + flow + smartMoney;
+
+    return [horse.id, Math.max(-MARKET_CONFIG.MAX_DRIFT, Math.min(MARKET_CONFIG.MAX_DRIFT, moved))];
+  }));
+}
+
+/**
+ * Move the market on a number of ticks, up to the off, and record the win
+ * price at each. The opening book is passed in each time so the market
+ * follows it as simulated odds are refined. Only the win market is repriced
+ * at each move; the full book is repriced once at the end.
+ */
+export function advanceMarket(market: Market, race: Race, opening: Book, ticks: number = 1): Market {
+  const target = Math.min(market.tick + ticks, getMarketTicks(race, race.startTime));
+  if (target <= market.tick) return market;
+
+  const winOnly: Book = { ...opening, markets: { win: opening.markets.win } as Book['markets'] };
+  const history = Object.fromEntries(race.horses.map((horse) => [horse.id, [...(market.history[horse.id] ?? [])]]));
+  let drift = market.drift;
+
+  for (let tick = market.tick; tick < target; tick++) {
+    drift = moveDrift(market.signals, drift, race, tick);
+    const prices = getWinPrices(applyDrift(winOnly, drift, market.playerStakes), race);
+    race.horses.forEach((horse) => history[horse.id].push(prices[horse.id]));
+  }
+
+  return {
+    ...market,
+    tick: target,
+    drift,
+    opening,
+    book: applyDrift(opening, drift, market.playerStakes),
+    history,
+  };
+}
+
+/**
+ * Bring a market up to date: every move due since the race was put on the
+ * card, however long ago the market was last looked at. A closed market
+ * stays as it was at the close.
+ */
+export function catchUpMarket(market: Market, race: Race, opening: Book, now: number): Market {
+  const until = Math.min(now, market.closedAt ?? now);
+  return advanceMarket(market, race, opening, getMarketTicks(race, until) - market.tick);
+}
+
+/**
+ * Close a market when its race goes off, at its prices at that moment
+ */
+export function closeMarket(market: Market, race: Race, opening: Book, now: number): Market {
+  if (market.closedAt !== undefined) return market;
+  return { ...catchUpMarket(market, race, opening, now), closedAt: now };
+}
+
+/**
+ * Shorten the prices of horses the player has backed. Stakes on exotics are
+ * shared between their horses; a negative amount withdraws a cancelled stake.
+ */
+export function addPlayerStake(market: Market, horseIds: string[], amount: number): Market {
+  const playerStakes = { ...market.playerStakes };
+  horseIds.forEach((id) => {
+    playerStakes[id] = Math.max(0, (playerStakes[id] ?? 0) + amount / horseIds.length);
+  });
+
+  return { ...market, playerStakes, book: applyDrift(market.opening, market.drift, playerStakes) };
+}
+
+/**
+ * Move in a horse's win price since the market opened, as a fraction.
+ * Negative when the price has shortened.
+ */
+export function getPriceMovement(market: Market, horseId: string): number {
+  const history = market.history[horseId] ?? [];
+  if (history.length < 2 || history[0] === 0) return 0;
+
+  return history[history.length - 1] / history[0] - 1;
+}
@@ -0,0 +1,86 @@
+import { ODDS_CONFIG, Race, RaceProbabilities, RunnerProbabilities } from '@/types';
+import { RaceEngine } from '@/game/engine/RaceEngine';
+import { createSeededRandom, generateSeed } from './random';
+import { getSettlementFactor } from './settlement';
+
+/**
+ * Monte Carlo odds - prices calibrated to the game by running the headless
+ * race engine many times and counting where each horse finishes.
+ */
+
+// Mixed into the race seed so the simulated races never replay the real one
+const SIMULATION_SEED_SALT = 0x5bd1e995;
+
+/**
+ * Running tally of simulated finishes, which can be added to in batches
+ */
+export interface SimulationTally {
+  simulations: number;
+  finishes: Record<string, RunnerProbabilities>; // Summed settlement shares by horse id
+  nextSeed: () => number;
+}
+
+/**
+ * Start a tally for a race. Simulation seeds are derived from the race seed,
+ * so the same race always produces the same estimates.
+ */
+export function createSimulationTally(race: Race): SimulationTally {
+  const random = createSeededRandom((race.seed ^ SIMULATION_SEED_SALT) >>> 0);
+
+  return {
+    simulations: 0,
+    finishes: Object.fromEntries(race.horses.map((horse) => [horse.id, { win: 0, place: 0, show: 0 }])),
+    nextSeed: () => generateSeed(random),
+  };
+}
+
+/**
+ * Simulate a batch of races and add the finishes to the tally. Dead heats
+ * count as a share of a finish, just as they settle.
+ */
+export function runSimulations(race: Race, tally: SimulationTally, count: number): SimulationTally {
+  const field: Race = { ...race, results: undefined };
+
+  for (let i = 0; i < count; i++) {
+    const engine = new RaceEngine(field, undefined, undefined, createSeededRandom(tally.nextSeed()));
+    const results = engine.runToCompletion();
+
+    race.horses.forEach((horse) => {
+      const finishes = tally.finishes[horse.id];
+      finishes.win += getSettlementFactor({ type: 'win', horseIds: [horse.id] }, results);
+      finishes.place += getSettlementFactor({ type: 'place', horseIds: [horse.id] }, results);
+      finishes.show += getSettlementFactor({ type: 'show', horseIds: [horse.id] }, results);
+    });
+  }
+
+  tally.simulations += count;
+  return tally;
+}
+
+/**
+ * Finishing probabilities from a tally
+ */
+export function getProbabilities(race: Race, tally: SimulationTally, complete: boolean): RaceProbabilities {
+  const simulations = Math.max(1, tally.simulations);
+
+  return {
+    raceId: race.id,
+    simulations: tally.simulations,
+    complete,
+    runners: Object.fromEntries(
+      Object.entries(tally.finishes).map(([horseId, finishes]) => [horseId, {
+        win: finishes.win / simulations,
+        place: finishes.place / simulations,
+        show: finishes.show / simulations,
+      }])
+    ),
+  };
+}
+
+/**
+ * Estimate win, place and show probabilities for every horse in a race
+ */
+export function estimateProbabilities(race: Race, simulations: number = ODDS_CONFIG.SIMULATIONS): RaceProbabilities {
+  const tally = runSimulations(race, createSimulationTally(race), simulations);
+  return getProbabilities(race, tally, true);
+}
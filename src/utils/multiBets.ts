@@ -0,0 +1,113 @@
+import { MultiBet, MultiBetLeg, MultiBetType, RaceResult } from '@/types';
+import { getSettlementFactor } from './settlement';
+
+/**
+ * Multi-race bets - a winner to find in each of several races. Every leg is
+ * priced at the win prices taken when the bet was placed, and the legs
+ * multiply together like an accumulator.
+ */
+
+export interface MultiBetRules {
+  label: string;
+  minLegs: number;
+  maxLegs: number;
+  consecutive: boolean; // Legs must be the next races on the card
+  multipleSelections: boolean; // More than one horse may be covered in a leg
+}
+
+export const MULTI_BET_RULES: Record<MultiBetType, MultiBetRules> = {
+  'daily-double': { label: 'Daily Double', minLegs: 2, maxLegs: 2, consecutive: true, multipleSelections: true },
+  'pick-3': { label: 'Pick 3', minLegs: 3, maxLegs: 3, consecutive: true, multipleSelections: true },
+  'pick-4': { label: 'Pick 4', minLegs: 4, maxLegs: 4, consecutive: true, multipleSelections: true },
+  'pick-6': { label: 'Pick 6', minLegs: 6, maxLegs: 6, consecutive: true, multipleSelections: true },
+  accumulator: { label: 'Accumulator', minLegs: 2, maxLegs: 6, consecutive: false, multipleSelections: false },
+};
+
+/**
+ * Lines covered by a set of legs - one horse from every leg
+ */
+export function countMultiLines(legs: Pick<MultiBetLeg, 'horseIds'>[]): number {
+  if (legs.length === 0) return 0;
+  return legs.reduce((lines, leg) => lines * leg.horseIds.length, 1);
+}
+
+/**
+ * Check a set of legs against a bet type's rules and the race ids on the card,
+ * in running order. Returns an error message, or undefined if the legs are valid.
+ */
+export function validateMultiLegs(
+  type: MultiBetType,
+  legs: Pick<MultiBetLeg, 'raceId' | 'horseIds'>[],
+  schedule: string[]
+): string | undefined {
+  const rules = MULTI_BET_RULES[type];
+
+  if (legs.length < rules.minLegs || legs.length > rules.maxLegs) {
+    return rules.minLegs === rules.maxLegs
+      ? `A ${rules.label} needs ${rules.minLegs} races`
+      : `An ${rules.label.toLowerCase()} needs ${rules.minLegs} to ${rules.maxLegs} races`;
+  }
+  if (new Set(legs.map((leg) => leg.raceId)).size !== legs.length) {
+    return 'Each race can only be one leg';
+  }
+
+  const positions = legs.map((leg) => schedule.indexOf(leg.raceId));
+  if (positions.some((position) => position === -1)) {
+    return 'Every leg must be a race still on the card';
+  }
+  if (rules.consecutive && positions.some((position, i) => position !== positions[0] + i)) {
+    return `A ${rules.label} is run over consecutive races`;
+  }
+  if (legs.some((leg) => leg.horseIds.length === 0)) {
+    return 'Pick a horse in every leg';
+  }
+  if (!rules.multipleSelections && legs.some((leg) => leg.horseIds.length > 1)) {
+    return `An ${rules.label.toLowerCase()} takes one horse per race`;
+  }
+  return undefined;
+}
+
+/**
+ * Return if the longest priced line comes in, per unit staked
+ */
+export function getMaxMultiplier(legs: Pick<MultiBetLeg, 'horseIds' | 'odds'>[]): number {
+  return legs.reduce((multiplier, leg) =>
+    multiplier * Math.max(0, ...leg.horseIds.map((id) => leg.odds[id] ?? 0)), 1);
+}
+
+/**
+ * Settle a leg from its race's results. A leg pays the win price of whichever
+ * covered horse won, shared under dead-heat rules; covering both horses in a
+ * dead heat collects both shares.
+ */
+export function settleLeg(leg: MultiBetLeg, results: RaceResult[]): MultiBetLeg {
+  const returns = leg.horseIds.reduce((sum, horseId) =>
+    sum + getSettlementFactor({ type: 'win', horseIds: [horseId] }, results) * (leg.odds[horseId] ?? 0), 0);
+
+  return returns > 0
+    ? { ...leg, status: 'won', returns }
+    : { ...leg, status: 'lost', returns: 0 };
+}
+
+/**
+ * Settle any legs of a bet run in a race. The bet is lost as soon as a leg
+ * loses and won once every leg has won.
+ */
+export function settleMultiBet(bet: MultiBet, raceId: string, results: RaceResult[]): MultiBet {
+  if (bet.status !== 'pending' || !bet.legs.some((leg) => leg.raceId === raceId && leg.status === 'pending')) {
+    return bet;
+  }
+
+  const legs = bet.legs.map((leg) =>
+    leg.raceId === raceId && leg.status === 'pending' ? settleLeg(leg, results) : leg
+  );
+
+  if (legs.some((leg) => leg.status === 'lost')) {
+    return { ...bet, legs, status: 'lost', winnings: 0 };
+  }
+  if (legs.every((leg) => leg.status === 'won')) {
+    const multiplier = legs.reduce((product, leg) => product * (leg.returns ?? 0), 1);
+    return { ...bet, legs, status: 'won', winnings: bet.stake * multiplier };
+  }
+  return { ...bet, legs };
+}
@@ -1,4 +1,5 @@
 import { Horse, Race } from '@/types';
+import { rateRunner } from './ratedPerformance';
 
 /**
  * Calculate odds for a horse based on multiple factors
@@ -26,7 +27,8 @@ export function calculateOdds(horse: Horse, race: Race): number {
 
 /**
  * Compare horse stats to the field average
- * Returns a normalized score (0-1)
+ * Returns the weighted average of the horse's stat ratios to the field,
+ * scaled down by 1.5 (about 0.67 for an average horse)
  */
 function compareStatsToField(horse: Horse, horses: Horse[]): number {
   const avgTopSpeed = horses.reduce((sum, h) => sum + h.topSpeed, 0) / horses.length;
@@ -43,55 +45,13 @@ function compareStatsToField(horse: Horse, horses: Horse[]): number {
 }
 
 /**
- * Assess how well horse performs under current conditions
- * Returns a normalized score (0-1)
+ * Assess how well horse performs under current conditions, using the same
+ * rated performance the race engine runs horses at
+ * Returns a multiplier centred on 1: above 1 when the going, draw and trip suit
  */
 function assessConditions(horse: Horse, race: Race): number {
-  let score = 1.0;
-  
-  // Track surface bonus
-  const surfaceBonus = getSurfaceBonus(horse.trackPreference, race.trackSurface);
-  score *= surfaceBonus;
-  
-  // Weather modifier
-  if (race.weather === 'rain') {
-    // Rain reduces performance, especially for low stamina horses
-    const weatherPenalty = 1 - (0.1 * (1 - horse.stamina / 100));
-    score *= weatherPenalty;
-  } else if (race.weather === 'muddy') {
-    // Muddy conditions affect acceleration more
-    const mudPenalty = 1 - (0.15 * (1 - horse.acceleration / 100));
-    score *= mudPenalty;
-  }
-  
-  return score;
-}
-
-/**
- * Get surface bonus for horse preference
- */
-function getSurfaceBonus(
-  preference: 'firm' | 'soft' | 'heavy',
-  surface: 'firm' | 'soft' | 'heavy'
-): number {
-  if (preference === surface) {
-    return 1.1; // 10% bonus on preferred surface
-  }
-  
-  // Penalty for non-preferred surfaces
-  const penalties: Record<string, number> = {
-    'firm-firm': 1.0,
-    'firm-soft': 0.95,
-    'firm-heavy': 0.9,
-    'soft-firm': 0.95,
-    'soft-soft': 1.0,
-    'soft-heavy': 0.95,
-    'heavy-firm': 0.9,
-    'heavy-soft': 0.95,
-    'heavy-heavy': 1.0,
-  };
-  
-  return penalties[`${preference}-${surface}`] || 1.0;
+  const { going, draw, trip } = rateRunner(horse, race);
+  return going * draw * trip;
 }
 
 /**
@@ -100,43 +60,3 @@ function getSurfaceBonus(
 export function oddsToProbability(odds: number): number {
   return 1 / odds;
 }
-
-/**
- * Format odds for display (e.g., "2.50", "10.00")
- */
-export function formatOdds(odds: number): string {
-  return odds.toFixed(2);
-}
-
-/**
- * Calculate payout for a bet
- */
-export function calculatePayout(
-  betType: 'win' | 'place' | 'show' | 'exacta',
-  odds: number,
-  amount: number
-): number {
-  switch (betType) {
-    case 'win':
-      return odds * amount;
-    case 'place':
-      return (odds * 0.5) * amount;
-    case 'show':
-      return (odds * 0.25) * amount;
-    case 'exacta':
-      return (odds * 0.1) * amount;
-    default:
-      return 0;
-  }
-}
-
-/**
- * Calculate exacta odds for two horses
- */
-export function calculateExactaOdds(horse1: Horse, horse2: Horse, race: Race): number {
-  const odds1 = calculateOdds(horse1, race);
-  const odds2 = calculateOdds(horse2, race);
-  
-  // Exacta odds are higher than individual odds
-  return (odds1 * odds2) / 2;
-}
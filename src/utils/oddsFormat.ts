@@ -0,0 +1,79 @@
+import { OddsFormat } from '@/types';
+
+/**
+ * Odds display formats - prices are held as decimal odds and converted for
+ * display in the player's preferred format
+ */
+
+export const ODDS_FORMAT_LABELS: Record<OddsFormat, string> = {
+  decimal: 'Decimal',
+  fractional: 'Fractional',
+  american: 'American',
+  probability: 'Implied %',
+};
+
+/**
+ * Standard fractional prices, as [numerator, denominator], shortest first
+ */
+const STANDARD_FRACTIONS: [number, number][] = [
+  [1, 100], [1, 50], [1, 33], [1, 25], [1, 20], [1, 16], [1, 14], [1, 12], [1, 10], [1, 8],
+  [2, 13], [1, 6], [2, 11], [1, 5], [2, 9], [1, 4], [2, 7], [3, 10], [1, 3], [4, 11],
+  [2, 5], [4, 9], [1, 2], [8, 15], [4, 7], [8, 13], [4, 6], [8, 11], [4, 5], [5, 6],
+  [10, 11], [1, 1], [11, 10], [6, 5], [5, 4], [11, 8], [6, 4], [13, 8], [7, 4], [15, 8],
+  [2, 1], [9, 4], [5, 2], [11, 4], [3, 1], [10, 3], [7, 2], [4, 1], [9, 2], [5, 1],
+  [11, 2], [6, 1], [13, 2], [7, 1], [15, 2], [8, 1], [17, 2], [9, 1], [10, 1], [11, 1],
+  [12, 1], [14, 1], [16, 1], [18, 1], [20, 1], [22, 1], [25, 1], [28, 1], [33, 1], [40, 1],
+  [50, 1], [66, 1], [80, 1], [100, 1], [125, 1], [150, 1], [200, 1], [250, 1], [300, 1], [400, 1],
+  [500, 1], [750, 1], [1000, 1],
+];
+
+/**
+ * Nearest standard fractional price to decimal odds, e.g. 3.5 is "5/2" and
+ * 2.0 is "Evens". Prices are compared on the ratio of winnings to stake.
+ */
+export function toFractional(odds: number): string {
+  const profit = Math.max(odds - 1, Number.EPSILON);
+  const [numerator, denominator] = STANDARD_FRACTIONS.reduce((nearest, fraction) =>
+    Math.abs(Math.log(fraction[0] / fraction[1] / profit)) < Math.abs(Math.log(nearest[0] / nearest[1] / profit))
+      ? fraction
+      : nearest
+  );
+
+  // Longer prices than the ladder goes are quoted to the nearest point
+  if (numerator === 1000 && profit > 1000) return `${Math.round(profit)}/1`;
+  return numerator === denominator ? 'Evens' : `${numerator}/${denominator}`;
+}
+
+/**
+ * American moneyline: the winnings on 100 staked for prices of evens or
+ * longer, otherwise the stake needed to win 100
+ */
+export function toAmerican(odds: number): string {
+  const profit = odds - 1;
+  if (profit <= 0) return '-';
+
+  return profit >= 1 ? `+${Math.round(profit * 100)}` : `-${Math.round(100 / profit)}`;
+}
+
+/**
+ * Chance implied by the price, as a percentage
+ */
+export function toImpliedProbability(odds: number): string {
+  return `${(100 / odds).toFixed(1)}%`;
+}
+
+/**
+ * Format decimal odds for display (e.g., "2.50", "6/4", "+150", "40.0%")
+ */
+export function formatOdds(odds: number, format: OddsFormat = 'decimal'): string {
+  switch (format) {
+    case 'fractional':
+      return toFractional(odds);
+    case 'american':
+      return toAmerican(odds);
+    case 'probability':
+      return toImpliedProbability(odds);
+    default:
+      return odds.toFixed(2);
+  }
+}
@@ -0,0 +1,91 @@
+import { BetType, Book, EachWayTerms, Tote, WagerMode } from '@/types';
+import { getBookPrice } from './book';
+import { addToPool, getApproximateDividend } from './tote';
+import { getEachWayPlaceOdds } from './eachWay';
+
+/**
+ * Pricing for the betting slip. Every bet type is priced from the race's
+ * current book, or estimated from its tote pools, so the slip quotes the
+ * same prices shown on the form.
+ */
+
+export interface PriceSource {
+  book: Book; // The live market's book, or the opening book before it opens
+  tote?: Tote;
+}
+
+export interface PricedLine {
+  horseIds: string[];
+  odds: number;
+  stake: number;
+  potentialPayout: number;
+}
+
+/**
+ * Price each line of a bet at a stake per line. Fixed odds lines are priced
+ * in their own market; tote lines return the estimated dividend once the
+ * earlier lines are in the pools. Returns undefined if any line has no price.
+ */
+export function priceLines(
+  source: PriceSource,
+  mode: WagerMode,
+  market: BetType,
+  lines: string[][],
+  stake: number
+): PricedLine[] | undefined {
+  let pools = source.tote;
+  const priced: PricedLine[] = [];
+
+  for (const horseIds of lines) {
+    let odds: number | undefined;
+
+    if (mode === 'tote') {
+      if (!pools) return undefined;
+      pools = addToPool(pools, market, horseIds, stake);
+      odds = getApproximateDividend(pools, market, horseIds);
+    } else {
+      odds = getBookPrice(source.book, market, horseIds);
+    }
+
+    if (!odds) return undefined;
+    priced.push({ horseIds, odds, stake, potentialPayout: odds * stake });
+  }
+
+  return priced;
+}
+
+/**
+ * Price the win and place parts of an each-way bet, staking the amount on
+ * each. The place part pays a fraction of the win price on the race's terms.
+ */
+export function priceEachWay(
+  source: PriceSource,
+  horseId: string,
+  terms: EachWayTerms,
+  stake: number
+): { win: PricedLine; place: PricedLine } | undefined {
+  const odds = getBookPrice(source.book, 'win', [horseId]);
+  if (!odds) return undefined;
+
+  const placeOdds = getEachWayPlaceOdds(odds, terms);
+  return {
+    win: { horseIds: [horseId], odds, stake, potentialPayout: odds * stake },
+    place: { horseIds: [horseId], odds: placeOdds, stake, potentialPayout: placeOdds * stake },
+  };
+}
+
+/**
+ * Combined stake and potential return of a set of priced lines
+ */
+export function getLineTotals(lines: Pick<PricedLine, 'stake' | 'potentialPayout'>[]): {
+  stake: number;
+  potentialPayout: number;
+} {
+  return lines.reduce(
+    (totals, line) => ({
+      stake: totals.stake + line.stake,
+      potentialPayout: totals.potentialPayout + line.potentialPayout,
+    }),
+    { stake: 0, potentialPayout: 0 }
+  );
+}
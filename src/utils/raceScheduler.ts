@@ -1,35 +1,66 @@
-import { Race, Horse, TrackSurface, Weather } from '@/types';
+import { Race, Horse, RaceType, TrackSurface, Weather } from '@/types';
+import { RandomSource, createSeededRandom, generateSeed, shuffle } from './random';
+import { TRACKS, drawGates } from './draw';
 
-let raceCounter = 0;
+// Time between races on the card
+const RACE_INTERVAL = 60 * 1000;
 
 /**
- * Generate a new race with random conditions
+ * Generate a new race with random conditions.
+ * Conditions and the race simulation are both derived from the seed. The id
+ * is drawn separately so it can be shown without giving the seed away.
  */
-export function generateRace(horses: Horse[]): Race {
+export function generateRace(
+  horses: Horse[],
+  seed: number = generateSeed(),
+  id: string = generateRaceId()
+): Race {
   const trackSurfaces: TrackSurface[] = ['firm', 'soft', 'heavy'];
   const weathers: Weather[] = ['clear', 'rain', 'muddy'];
+  const random = createSeededRandom(seed);
   
   // Random conditions
-  const trackSurface = trackSurfaces[Math.floor(Math.random() * trackSurfaces.length)];
-  const weather = weathers[Math.floor(Math.random() * weathers.length)];
+  const trackSurface = trackSurfaces[Math.floor(random() * trackSurfaces.length)];
+  const weather = weathers[Math.floor(random() * weathers.length)];
   
   // Random distance (1000-2000 meters)
-  const distance = Math.floor(Math.random() * 1000) + 1000;
+  const distance = Math.floor(random() * 1000) + 1000;
+
+  // Venue and barrier draw
+  const track = TRACKS[Math.floor(random() * TRACKS.length)];
+  const draw = drawGates(horses, random);
+
+  // Handicap or level-weights stakes race, which sets the each-way terms
+  const raceTypes: RaceType[] = ['handicap', 'stakes'];
+  const raceType = raceTypes[Math.floor(random() * raceTypes.length)];
   
   // Start time in 10 seconds
   const startTime = Date.now() + 10000;
   
   return {
-    id: `race-${++raceCounter}`,
+    id,
     horses,
+    track: track.id,
+    draw,
     trackSurface,
     weather,
     distance,
+    raceType,
+    seed,
     status: 'scheduled',
+    scheduledAt: Date.now(),
     startTime,
   };
 }
 
+/**
+ * Generate a race id, random so ids stay unique across reloads for bets and
+ * replays
+ */
+export function generateRaceId(random: RandomSource = Math.random): string {
+  return `race-${generateSeed(random).toString(16).padStart(8, '0')}`;
+}
+
 /**
  * Get time until race starts
  */
@@ -83,21 +114,25 @@ export function getRaceConditionsDescription(race: Race): string {
 /**
  * Generate multiple upcoming races
  */
-export function generateUpcomingRaces(horses: Horse[], count: number): Race[] {
+export function generateUpcomingRaces(
+  horses: Horse[],
+  count: number,
+  random: RandomSource = Math.random
+): Race[] {
   const races: Race[] = [];
   const now = Date.now();
   
-  // Always make races ready immediately for better UX and testing
-  // First race starts now, subsequent races staggered by 1 second
-  const baseStartTime = now;
-  const staggerTime = 1000;
+  // Races go off a minute apart, leaving time to bet - and to cancel before
+  // the cut-off - on the first
+  const baseStartTime = now + RACE_INTERVAL;
+  const staggerTime = RACE_INTERVAL;
   
   for (let i = 0; i < count; i++) {
     // Shuffle horses for each race
-    const shuffledHorses = [...horses].sort(() => Math.random() - 0.5);
+    const shuffledHorses = shuffle(horses, random);
     const raceHorses = shuffledHorses.slice(0, 6); // Fixed at 6 horses for mobile
     
-    const race = generateRace(raceHorses);
+    const race = generateRace(raceHorses, generateSeed(random), generateRaceId(random));
     
     // Stagger start times
     race.startTime = baseStartTime + (i * staggerTime);
@@ -0,0 +1,45 @@
+/**
+ * Seeded random number generation for reproducible races
+ */
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), compatible with Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a deterministic PRNG (mulberry32) from a 32-bit seed.
+ * The same seed always yields the same sequence on every platform.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a new 32-bit seed
+ */
+export function generateSeed(random: RandomSource = Math.random): number {
+  return Math.floor(random() * 4294967296) >>> 0;
+}
+
+/**
+ * Shuffle a copy of an array using the given random source
+ */
+export function shuffle<T>(items: T[], random: RandomSource = Math.random): T[] {
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+}
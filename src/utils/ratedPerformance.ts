@@ -0,0 +1,55 @@
+import { Horse, Race, RaceConditions, RatedPerformance } from '@/types';
+import { getGateBias, getGate } from './draw';
+import { getGoingIndex, getGoingMultiplier } from './going';
+import { getTripMultiplier } from './trip';
+
+/**
+ * Rated performance - the single place a horse's expected performance under
+ * race conditions is worked out. The race engine runs horses at their rating
+ * and the odds are priced from it, so the two can't drift apart.
+ */
+
+/**
+ * Conditions a race is run under
+ */
+export function getRaceConditions(race: Race): RaceConditions {
+  return {
+    trackSurface: race.trackSurface,
+    weather: race.weather,
+    distance: race.distance,
+    track: race.track,
+    fieldSize: race.horses.length,
+  };
+}
+
+/**
+ * Performance from a horse's stats alone
+ */
+export function getBaseRating(horse: Horse): number {
+  return (horse.topSpeed * 0.4) + (horse.acceleration * 0.3) + (horse.stamina * 0.3);
+}
+
+/**
+ * Expected performance of a horse breaking from a gate under the given conditions
+ */
+export function getRatedPerformance(horse: Horse, conditions: RaceConditions, gate: number): RatedPerformance {
+  const base = getBaseRating(horse);
+  const going = getGoingMultiplier(horse, getGoingIndex(conditions.trackSurface, conditions.weather));
+  const draw = getGateBias(conditions.track, conditions.distance, gate, conditions.fieldSize);
+  const trip = getTripMultiplier(horse, conditions.distance);
+
+  return {
+    base,
+    going,
+    draw,
+    trip,
+    rating: base * going * draw * trip,
+  };
+}
+
+/**
+ * Rated performance of a horse in a race
+ */
+export function rateRunner(horse: Horse, race: Race): RatedPerformance {
+  return getRatedPerformance(horse, getRaceConditions(race), getGate(race, horse.id));
+}
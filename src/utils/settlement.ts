@@ -0,0 +1,91 @@
+import { Bet, RaceResult } from '@/types';
+import { BET_SELECTIONS } from './exotics';
+
+/**
+ * Number of places paid for each single-horse bet type
+ */
+export const PAID_PLACES = {
+  win: 1,
+  place: 2,
+  show: 3,
+} as const;
+
+/**
+ * Finishing places a horse occupies. Horses in a dead heat share a run of
+ * places, e.g. two horses dead-heating for 2nd both occupy 2nd and 3rd.
+ */
+function getOccupiedPlaces(horseId: string, results: RaceResult[]): number[] {
+  const result = results.find((r) => r.horseId === horseId);
+  if (!result) return [];
+
+  const tied = results.filter((r) => r.position === result.position).length;
+  return Array.from({ length: tied }, (_, i) => result.position + i);
+}
+
+/**
+ * Fraction of a stake paid on a horse finishing within the first n places.
+ * A horse dead-heating across the last paid place returns its share.
+ */
+function getPlacedFactor(horseId: string, results: RaceResult[], places: number): number {
+  const occupied = getOccupiedPlaces(horseId, results);
+  if (occupied.length === 0) return 0;
+
+  return occupied.filter((place) => place <= places).length / occupied.length;
+}
+
+/**
+ * List the distinct orders the judge could have called for the first n
+ * places, given any dead heats
+ */
+function getWinningOrders(results: RaceResult[], places: number, used: string[] = []): string[][] {
+  if (used.length === places) return [used];
+
+  const place = used.length + 1;
+  return results
+    .filter((r) => !used.includes(r.horseId) && getOccupiedPlaces(r.horseId, results).includes(place))
+    .flatMap((r) => getWinningOrders(results, places, [...used, r.horseId]));
+}
+
+/**
+ * Fraction of a bet's potential payout that is paid out.
+ * Returns 1 for an outright winner and 0 for a loser. Under dead-heat rules
+ * the stake is split between the tied horses, so a selection sharing the last
+ * paid place returns a proportional share. Exotics pay the share of the
+ * possible finishing orders their line covers. The place part of an
+ * each-way bet pays on the terms it was struck at.
+ */
+export function getSettlementFactor(
+  bet: Pick<Bet, 'type' | 'horseIds' | 'eachWay'>,
+  results: RaceResult[] | undefined
+): number {
+  if (!results || results.length === 0) return 0;
+
+  if (bet.eachWay?.part === 'place') {
+    return getPlacedFactor(bet.horseIds[0], results, bet.eachWay.terms.places);
+  }
+
+  switch (bet.type) {
+    case 'win':
+    case 'place':
+    case 'show':
+      return getPlacedFactor(bet.horseIds[0], results, PAID_PLACES[bet.type]);
+    case 'exacta':
+    case 'trifecta':
+    case 'superfecta':
+    case 'quinella':
+    case 'first-four': {
+      const { horses, ordered } = BET_SELECTIONS[bet.type];
+      if (bet.horseIds.length !== horses || new Set(bet.horseIds).size !== horses) return 0;
+
+      // Every order the judge could have called shares the payout
+      const orders = getWinningOrders(results, horses);
+      const matches = (order: string[]) => ordered
+        ? order.every((horseId, index) => bet.horseIds[index] === horseId)
+        : order.every((horseId) => bet.horseIds.includes(horseId));
+
+      return orders.length > 0 ? orders.filter(matches).length / orders.length : 0;
+    }
+    default:
+      return 0;
+  }
+}
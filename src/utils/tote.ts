@@ -0,0 +1,199 @@
+import { BetType, Book, Race, RaceResult, Tote, ToteDividends, TotePool, TOTE_CONFIG } from '@/types';
+import { createSeededRandom, RandomSource } from './random';
+import { getSettlementFactor } from './settlement';
+
+/**
+ * Pari-mutuel tote - every stake on a bet type goes into one pool, the
+ * takeout is deducted and what's left is shared by the winning tickets.
+ */
+
+// Places paid by each pool
+const POOL_PLACES: Record<BetType, number> = {
+  win: 1,
+  place: 2,
+  show: 3,
+  exacta: 1,
+  trifecta: 1,
+  superfecta: 1,
+  quinella: 1,
+  'first-four': 1,
+};
+
+const MARKETS = Object.keys(POOL_PLACES) as BetType[];
+
+// Share of the crowd betting into each pool
+const CROWD_MARKET_SHARE: Record<BetType, number> = {
+  win: 0.35,
+  place: 0.15,
+  show: 0.1,
+  exacta: 0.12,
+  trifecta: 0.08,
+  superfecta: 0.05,
+  quinella: 0.1,
+  'first-four': 0.05,
+};
+
+// Mixed into the race seed so the crowd's money doesn't follow the race's own draws
+const CROWD_SEED_SALT = 0x27d4eb2f;
+
+/**
+ * Key for a selection in a pool
+ */
+export function getSelectionKey(horseIds: string[]): string {
+  return horseIds.join('|');
+}
+
+/**
+ * Open empty pools for a race
+ */
+export function createTote(race: Race): Tote {
+  const placesFor = (market: BetType) => Math.min(POOL_PLACES[market], race.horses.length);
+
+  return {
+    raceId: race.id,
+    pools: Object.fromEntries(MARKETS.map((market): [BetType, TotePool] => [
+      market,
+      { market, places: placesFor(market), total: 0, stakes: {} },
+    ])) as Record<BetType, TotePool>,
+  };
+}
+
+/**
+ * Add a stake to a pool. A negative amount withdraws it again.
+ */
+export function addToPool(tote: Tote, market: BetType, horseIds: string[], amount: number): Tote {
+  const pool = tote.pools[market];
+  const key = getSelectionKey(horseIds);
+  const stake = Math.max(0, (pool.stakes[key] ?? 0) + amount);
+
+  return {
+    ...tote,
+    pools: {
+      ...tote.pools,
+      [market]: {
+        ...pool,
+        total: pool.total - (pool.stakes[key] ?? 0) + stake,
+        stakes: { ...pool.stakes, [key]: stake },
+      },
+    },
+  };
+}
+
+/**
+ * Pick an item with probability proportional to its weight
+ */
+function pickWeighted<T>(items: { item: T; weight: number }[], random: RandomSource): T {
+  const total = items.reduce((sum, { weight }) => sum + weight, 0);
+  let roll = random() * total;
+
+  for (const { item, weight } of items) {
+    roll -= weight;
+    if (roll <= 0) return item;
+  }
+  return items[items.length - 1].item;
+}
+
+/**
+ * Seed the pools with crowd money. Each simulated punter picks a pool, backs
+ * a selection in line with the book's probabilities and stakes a random
+ * amount. The crowd is seeded from the race, so a race always opens with the
+ * same pools.
+ */
+export function seedCrowdMoney(
+  tote: Tote,
+  race: Race,
+  book: Book,
+  bettors: number = TOTE_CONFIG.CROWD_BETTORS,
+  random: RandomSource = createSeededRandom((race.seed ^ CROWD_SEED_SALT) >>> 0)
+): Tote {
+  let seeded = tote;
+  const open = MARKETS.filter((market) => book.markets[market].prices.length > 0);
+
+  for (let i = 0; i < bettors; i++) {
+    const market = pickWeighted(open.map((item) => ({ item, weight: CROWD_MARKET_SHARE[item] })), random);
+    const horseIds = pickWeighted(
+      book.markets[market].prices.map((price) => ({ item: price.horseIds, weight: price.probability })),
+      random
+    );
+    const stake = Math.round(
+      TOTE_CONFIG.CROWD_MIN_STAKE + random() * (TOTE_CONFIG.CROWD_MAX_STAKE - TOTE_CONFIG.CROWD_MIN_STAKE)
+    );
+
+    seeded = addToPool(seeded, market, horseIds, stake);
+  }
+
+  return seeded;
+}
+
+/**
+ * Pool left to pay out once the takeout is deducted
+ */
+function getNetPool(pool: TotePool): number {
+  return pool.total * (1 - TOTE_CONFIG.TAKEOUT[pool.market]);
+}
+
+/**
+ * Dividend per unit staked, rounded down to the cent as the tote pays
+ */
+function toDividend(profit: number, stake: number): number {
+  const dividend = Math.max(TOTE_CONFIG.MIN_DIVIDEND, 1 + profit / stake);
+  return Math.floor(dividend * 100) / 100;
+}
+
+/**
+ * Approximate dividend for a selection if it were to win now. Place and show
+ * pools share the profit between the placed horses, so the other places are
+ * assumed to be filled by horses carrying an average share of the pool.
+ */
+export function getApproximateDividend(tote: Tote, market: BetType, horseIds: string[]): number | undefined {
+  const pool = tote.pools[market];
+  const stake = pool.stakes[getSelectionKey(horseIds)] ?? 0;
+  if (stake <= 0) return undefined;
+
+  const backed = Object.values(pool.stakes).filter((s) => s > 0).length;
+  const averageStake = pool.total / backed;
+  const otherPlaces = pool.places - 1;
+
+  const profit = getNetPool(pool) - stake - otherPlaces * averageStake;
+  return toDividend(profit / pool.places, stake);
+}
+
+/**
+ * Declare dividends for every winning selection once the result is in.
+ * The profit in each pool is shared between the winning selections by their
+ * settlement share, so dead heats split it just as they split fixed odds
+ * payouts. A winning selection nobody backed takes no share. If no winning
+ * selection was backed at all, nothing is declared for that pool.
+ */
+export function declareDividends(tote: Tote, results: RaceResult[]): ToteDividends {
+  const dividends = Object.fromEntries(MARKETS.map((market): [BetType, Record<string, number>] => {
+    const pool = tote.pools[market];
+
+    const winners = Object.entries(pool.stakes)
+      .filter(([, stake]) => stake > 0)
+      .map(([key, stake]) => ({
+        key,
+        stake,
+        share: getSettlementFactor({ type: market, horseIds: key.split('|') }, results),
+      }))
+      .filter(({ share }) => share > 0);
+
+    const totalShare = winners.reduce((sum, { share }) => sum + share, 0);
+    const winningStakes = winners.reduce((sum, { stake }) => sum + stake, 0);
+    const profit = getNetPool(pool) - winningStakes;
+
+    return [market, Object.fromEntries(winners.map(({ key, stake, share }) => [
+      key,
+      toDividend((profit * share) / totalShare, stake),
+    ]))];
+  })) as Record<BetType, Record<string, number>>;
+
+  return { raceId: tote.raceId, dividends };
+}
+
+/**
+ * Declared dividend for a selection, or undefined if it didn't pay
+ */
+export function getDividend(dividends: ToteDividends, market: BetType, horseIds: string[]): number | undefined {
+  return dividends.dividends[market][getSelectionKey(horseIds)];
+}
@@ -0,0 +1,64 @@
+import { Horse, TripRange } from '@/types';
+import { RandomSource } from './random';
+
+/**
+ * Shortest and longest race distances run, in metres
+ */
+export const MIN_RACE_DISTANCE = 1000;
+export const MAX_RACE_DISTANCE = 2000;
+
+/**
+ * Width of a horse's optimal trip range, in metres
+ */
+const TRIP_RANGE_WIDTH = 400;
+
+/**
+ * Performance lost per 100m outside the optimal trip, and the most it can cost
+ */
+const TRIP_PENALTY_PER_100M = 0.015;
+const MAX_TRIP_PENALTY = 0.08;
+
+/**
+ * Generate an optimal trip range. Horses with more stamina tend to want
+ * further, with some variation either way.
+ */
+export function generateOptimalTrip(stamina: number, random: RandomSource = Math.random): TripRange {
+  const staminaShare = Math.min(1, Math.max(0, (stamina - 70) / 30));
+  const centre = MIN_RACE_DISTANCE + staminaShare * (MAX_RACE_DISTANCE - MIN_RACE_DISTANCE) + (random() - 0.5) * TRIP_RANGE_WIDTH;
+  const min = Math.round((centre - TRIP_RANGE_WIDTH / 2) / 100) * 100;
+  const clampedMin = Math.min(MAX_RACE_DISTANCE - TRIP_RANGE_WIDTH, Math.max(MIN_RACE_DISTANCE, min));
+
+  return { min: clampedMin, max: clampedMin + TRIP_RANGE_WIDTH };
+}
+
+/**
+ * Metres a race distance falls outside a horse's optimal trip (0 when inside)
+ */
+export function getTripShortfall(horse: Horse, distance: number): number {
+  const { min, max } = horse.optimalTrip;
+  if (distance < min) return min - distance;
+  if (distance > max) return distance - max;
+  return 0;
+}
+
+/**
+ * Whether a horse is suited to a race distance
+ */
+export function isSuitedToTrip(horse: Horse, distance: number): boolean {
+  return getTripShortfall(horse, distance) === 0;
+}
+
+/**
+ * Performance multiplier for running over a distance
+ */
+export function getTripMultiplier(horse: Horse, distance: number): number {
+  const penalty = (getTripShortfall(horse, distance) / 100) * TRIP_PENALTY_PER_100M;
+  return 1 - Math.min(MAX_TRIP_PENALTY, penalty);
+}
+
+/**
+ * Format a trip range for display, e.g. "1200-1600m"
+ */
+export function formatTrip(trip: TripRange): string {
+  return `${trip.min}-${trip.max}m`;
+}
@@ -0,0 +1,29 @@
+import { Race, RaceProbabilities } from '@/types';
+import { createSimulationTally, getProbabilities, runSimulations } from '@/utils/monteCarloOdds';
+
+/**
+ * Odds worker - runs Monte Carlo race simulations off the main thread and
+ * posts refined probabilities after every batch
+ */
+
+export interface OddsWorkerRequest {
+  race: Race;
+  simulations: number;
+  batchSize: number;
+}
+
+export type OddsWorkerResponse = RaceProbabilities;
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<OddsWorkerRequest>) => {
+  const { race, simulations, batchSize } = event.data;
+  const tally = createSimulationTally(race);
+
+  while (tally.simulations < simulations) {
+    runSimulations(race, tally, Math.min(batchSize, simulations - tally.simulations));
+
+    const response: OddsWorkerResponse = getProbabilities(race, tally, tally.simulations >= simulations);
+    ctx.postMessage(response);
+  }
+};
@@ -42,7 +42,7 @@ test.describe('Edge Cases and Error Scenarios', () => {
     
     // Should generate default data
     await expect(page.locator('[data-testid="lobby-title"]')).toBeVisible();
-    await expect(page.locator('[data-testid="race-card"]')).toHaveCount(5);
+    await expect(page.locator('[data-testid="race-card"]')).toHaveCount(6);
   });
 
   test('should handle race with all horses having same stats', async ({ page, context }) => {
@@ -1,5 +1,6 @@
 import { test, expect } from '@playwright/test';
 import { waitForAppLoad, SELECTORS } from '../helpers/test-utils';
+import { ResultsPage } from '../helpers/page-objects/ResultsPage';
 
 test.describe('Full User Flow', () => {
   test('should complete full race flow from lobby to results', async ({ page, context }) => {
@@ -10,7 +11,7 @@ test.describe('Full User Flow', () => {
 
     // Step 1: Verify lobby
     await expect(page.locator('[data-testid="lobby-title"]')).toBeVisible();
-    await expect(page.locator('[data-testid="race-card"]')).toHaveCount(5);
+    await expect(page.locator('[data-testid="race-card"]')).toHaveCount(6);
 
     // Step 2: Select a race
     await page.locator('[data-testid="race-card"]').first().click();
@@ -47,12 +48,14 @@ test.describe('Full User Flow', () => {
     // Step 10: Wait for race to complete
     await expect(page.locator('[data-testid="finished-badge"]')).toBeVisible({ timeout: 60000 });
 
-    // Step 11: Wait for navigation to results
+    // Step 11: Wait for navigation to results, past the photo finish on a close finish
     await page.waitForTimeout(3000);
+    const resultsPage = new ResultsPage(page);
+    await resultsPage.continuePastPhotoFinish();
 
     // Step 12: Verify results screen
-    await expect(page.locator('[data-testid="results-title"]')).toBeVisible();
-    await expect(page.locator('text=Coming soon...')).toBeVisible();
+    await resultsPage.assertIsVisible();
+    await resultsPage.assertResultsTableVisible(horseCount);
   });
 
   test('should handle multiple races in sequence', async ({ page, context }) => {
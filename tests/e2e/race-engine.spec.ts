@@ -105,7 +105,7 @@ test.describe('Race Engine Functionality', () => {
     await expect(page.locator('h2:has-text("Race #")')).toBeVisible();
   });
 
-  test('should go back from race to form during race', async ({ page }) => {
+  test('should not go back from race to form during race', async ({ page }) => {
     // Navigate to race
     await page.locator('[data-testid="race-card"]').first().click();
     await page.click('[data-testid="start-race-button"]');
@@ -116,12 +116,9 @@ test.describe('Race Engine Functionality', () => {
     await page.waitForTimeout(1000);
     await expect(page.locator(SELECTORS.racingIndicator)).toBeVisible();
     
-    // Go back
-    await page.click('[data-testid="back-button"]');
-    
-    // Should be back on form
-    await expect(page.locator('[data-testid="start-race-button"]')).toBeVisible();
-    await expect(page.locator('h2:has-text("Race #")')).toBeVisible();
+    // Bets are locked once the race is off, so it has to finish and settle first
+    await expect(page.locator('[data-testid="back-button"]')).toBeDisabled();
+    await expect(page.locator(SELECTORS.racingIndicator)).toBeVisible();
   });
 
   test('should display correct race information', async ({ page }) => {
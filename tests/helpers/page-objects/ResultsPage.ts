@@ -23,10 +23,22 @@ export class ResultsPage {
   }
 
   /**
-   * Assert coming soon message is visible
+   * Close finishes go to the judge first: continue past the photo finish
+   * if one is shown
    */
-  async assertComingSoonVisible() {
-    await expect(this.page.locator('text=Coming soon...')).toBeVisible();
+  async continuePastPhotoFinish() {
+    const continueButton = this.page.locator(SELECTORS.photoFinishContinueButton);
+    if (await continueButton.isVisible()) {
+      await continueButton.click();
+    }
+  }
+
+  /**
+   * Assert the full results table lists every runner
+   */
+  async assertResultsTableVisible(runners: number) {
+    await expect(this.page.locator(SELECTORS.resultsTable)).toBeVisible();
+    await expect(this.page.locator(`${SELECTORS.resultsTable} tbody tr`)).toHaveCount(runners);
   }
 
   /**
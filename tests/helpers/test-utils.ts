@@ -1,4 +1,5 @@
 import { Page, expect } from '@playwright/test';
+import type { Horse, Race } from '@/types';
 
 /**
  * Test utilities and helper functions for Playwright tests
@@ -35,8 +36,13 @@ export const SELECTORS = {
   progressBar: '[data-testid="progress-bar"]',
   raceCanvas: '[data-testid="race-canvas"]',
 
+  // Photo finish selectors
+  photoFinishTitle: '[data-testid="photo-finish-title"]',
+  photoFinishContinueButton: '[data-testid="photo-finish-continue-button"]',
+
   // Results selectors
   resultsTitle: '[data-testid="results-title"]',
+  resultsTable: '[data-testid="results-table"]',
 
   // General UI
   button: 'button',
@@ -158,6 +164,8 @@ export const mockRaceData = {
       consistency: 85,
       trackPreference: 'firm',
       weatherModifier: 1.0,
+      runningStyle: 'front-runner',
+      optimalTrip: { min: 1000, max: 1400 },
       raceHistory: [],
       winRate: 0,
       totalRaces: 0,
@@ -173,19 +181,76 @@ export const mockRaceData = {
       consistency: 80,
       trackPreference: 'soft',
       weatherModifier: 0.95,
+      runningStyle: 'closer',
+      optimalTrip: { min: 1200, max: 1600 },
       raceHistory: [],
       winRate: 0,
       totalRaces: 0,
       spriteConfig: { width: 80, height: 60, color: '#000000' },
     },
   ],
+  track: 'meadowbrook',
+  draw: { 'horse-1': 2, 'horse-2': 1 },
   trackSurface: 'firm',
   weather: 'clear',
   distance: 1200,
+  raceType: 'stakes',
+  seed: 12345,
   status: 'scheduled',
+  scheduledAt: Date.now(),
   startTime: Date.now(),
 };
 
+/**
+ * Build a horse for unit tests: an average runner unless overridden
+ */
+export function createTestHorse(overrides: Partial<Horse> = {}): Horse {
+  const id = overrides.id ?? 'horse-1';
+
+  return {
+    id,
+    name: id,
+    color: '#8B4513',
+    topSpeed: 80,
+    acceleration: 80,
+    stamina: 80,
+    consistency: 80,
+    trackPreference: 'firm',
+    weatherModifier: 1,
+    runningStyle: 'stalker',
+    optimalTrip: { min: 1000, max: 1400 },
+    raceHistory: [],
+    winRate: 0,
+    totalRaces: 0,
+    spriteConfig: { width: 80, height: 60, color: '#8B4513' },
+    ...overrides,
+  };
+}
+
+/**
+ * Build a race for unit tests. Horses are drawn in the order given unless a
+ * draw is passed in.
+ */
+export function createTestRace(overrides: Partial<Race> = {}): Race {
+  const horses = overrides.horses ?? [createTestHorse({ id: 'horse-1' }), createTestHorse({ id: 'horse-2' })];
+
+  return {
+    id: 'race-1',
+    horses,
+    track: 'kingsgate',
+    draw: Object.fromEntries(horses.map((horse, i) => [horse.id, i + 1])),
+    trackSurface: 'firm',
+    weather: 'clear',
+    distance: 1400,
+    raceType: 'stakes',
+    seed: 1,
+    status: 'scheduled',
+    scheduledAt: 0,
+    startTime: 0,
+    ...overrides,
+  };
+}
+
 /**
  * Mock horse store data
  */
@@ -200,6 +265,8 @@ export const mockHorseStore = {
     consistency: 70 + Math.floor(Math.random() * 30),
     trackPreference: ['firm', 'soft', 'heavy'][Math.floor(Math.random() * 3)] as any,
     weatherModifier: 0.9 + Math.random() * 0.2,
+    runningStyle: ['front-runner', 'stalker', 'closer'][i % 3] as any,
+    optimalTrip: { min: 1000 + (i % 7) * 100, max: 1400 + (i % 7) * 100 },
     raceHistory: [],
     winRate: 0,
     totalRaces: 0,
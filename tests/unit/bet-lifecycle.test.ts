@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useBettingStore } from '@/stores/bettingStore';
+import { useWalletStore } from '@/stores/walletStore';
+import { betsStorage } from '@/utils/localStorage';
+import { Bet, BETTING_CONFIG, ECONOMY_CONFIG, RaceResult } from '@/types';
+
+const NOW = 1_000_000;
+const START = NOW + BETTING_CONFIG.CANCEL_CUTOFF_MS + 10 * 1000;
+
+const result = (horseId: string, position: number): RaceResult => ({
+  horseId,
+  position,
+  time: 0,
+  finalSpeed: 0,
+  margin: 0,
+  sectionals: { splits: [], calls: [] },
+});
+
+const placeBet = (overrides: Partial<Bet> = {}): Bet => {
+  useBettingStore.getState().addBet({
+    raceId: 'race-1', type: 'win', mode: 'fixed', horseIds: ['a'], amount: 50, odds: 4, potentialPayout: 200, winnings: 0, status: 'pending',
+    ...overrides,
+  });
+  const { currentBets } = useBettingStore.getState();
+  return currentBets[currentBets.length - 1];
+};
+
+describe('bet lifecycle', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useBettingStore.setState({ currentBets: [] });
+  });
+
+  it('should cancel a pending bet before the cut-off and keep it in the history', () => {
+    const bet = placeBet();
+
+    expect(useBettingStore.getState().validateCancellation(bet.id, START, NOW).valid).toBe(true);
+    expect(useBettingStore.getState().cancelBet(bet.id, START, NOW)).toMatchObject([{ id: bet.id, status: 'cancelled' }]);
+    expect(useBettingStore.getState().currentBets).toHaveLength(0);
+    expect(betsStorage.get()).toMatchObject([{ id: bet.id, status: 'cancelled' }]);
+  });
+
+  it('should not cancel after the cut-off', () => {
+    const bet = placeBet();
+    const pastCutOff = START - BETTING_CONFIG.CANCEL_CUTOFF_MS + 1;
+
+    expect(useBettingStore.getState().validateCancellation(bet.id, START, pastCutOff).valid).toBe(false);
+    expect(useBettingStore.getState().cancelBet(bet.id, START, pastCutOff)).toEqual([]);
+    expect(useBettingStore.getState().currentBets).toHaveLength(1);
+  });
+
+  it('should lock bets when the race starts', () => {
+    const bet = placeBet();
+    const other = placeBet({ raceId: 'race-2' });
+
+    useBettingStore.getState().lockBets('race-1');
+
+    const validation = useBettingStore.getState().validateCancellation(bet.id, START, NOW);
+    expect(validation).toEqual({ valid: false, error: 'Bets are locked once the race has started' });
+    expect(useBettingStore.getState().validateCancellation(other.id, START, NOW).valid).toBe(true);
+    expect(betsStorage.get().find((b) => b.id === bet.id)?.lockedAt).toBeDefined();
+  });
+
+  it('should not cancel a settled bet', () => {
+    const bet = placeBet();
+
+    useBettingStore.getState().settleBets('race-1', [result('a', 1), result('b', 2)]);
+
+    expect(useBettingStore.getState().validateCancellation(bet.id, START, NOW).valid).toBe(false);
+    expect(betsStorage.get()).toMatchObject([{ id: bet.id, status: 'won', winnings: 200 }]);
+  });
+
+  it('should total the stake and potential payout of one race only', () => {
+    placeBet();
+    placeBet({ amount: 20, potentialPayout: 60 });
+    placeBet({ raceId: 'race-2', amount: 100, potentialPayout: 500 });
+
+    const { getTotalStake, getTotalPotentialPayout } = useBettingStore.getState();
+    expect(getTotalStake('race-1')).toBe(70);
+    expect(getTotalPotentialPayout('race-1')).toBe(260);
+    expect(getTotalStake('race-2')).toBe(100);
+  });
+});
+
+describe('reloading bets', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useBettingStore.setState({ currentBets: [] });
+  });
+
+  // A fresh copy of the store, as after a page reload
+  const reloadStore = async () => {
+    vi.resetModules();
+    return (await import('@/stores/bettingStore')).useBettingStore;
+  };
+
+  it('should reload pending and locked bets but not settled ones', async () => {
+    const pending = placeBet();
+    const locked = placeBet({ raceId: 'race-2' });
+    const settled = placeBet({ raceId: 'race-3' });
+    useBettingStore.getState().lockBets('race-2');
+    useBettingStore.getState().settleBets('race-3', [result('a', 1)]);
+
+    const reloaded = await reloadStore();
+
+    expect(reloaded.getState().currentBets.map((bet) => bet.id)).toEqual([pending.id, locked.id]);
+    expect(reloaded.getState().currentBets[1].lockedAt).toBeDefined();
+    expect(reloaded.getState().currentBets.map((bet) => bet.id)).not.toContain(settled.id);
+  });
+
+  it('should cancel a bet placed before the reload', async () => {
+    const bet = placeBet();
+
+    const reloaded = await reloadStore();
+
+    expect(reloaded.getState().cancelBet(bet.id, START, NOW)).toMatchObject([{ id: bet.id, status: 'cancelled' }]);
+    expect(betsStorage.get()).toMatchObject([{ id: bet.id, status: 'cancelled' }]);
+  });
+
+  it('should settle a bet placed before the reload', async () => {
+    const bet = placeBet();
+
+    const reloaded = await reloadStore();
+
+    expect(reloaded.getState().settleBets('race-1', [result('a', 1)])).toMatchObject({ totalWinnings: 200, wonBets: 1 });
+    expect(betsStorage.get()).toMatchObject([{ id: bet.id, status: 'won', winnings: 200 }]);
+  });
+});
+
+describe('refundStake', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useWalletStore.getState().reset();
+  });
+
+  it('should return the stake without counting it as winnings', () => {
+    const { updateBalance, refundStake } = useWalletStore.getState();
+
+    updateBalance(-50);
+    refundStake(50);
+
+    const wallet = useWalletStore.getState();
+    expect(wallet.balance).toBe(ECONOMY_CONFIG.STARTING_BALANCE);
+    expect(wallet.totalLosses).toBe(0);
+    expect(wallet.totalWinnings).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { createBook, getBookPercentage, getBookPrice } from '@/utils/book';
+import { BetType, RaceProbabilities } from '@/types';
+import { createTestHorse, createTestRace } from '../helpers/test-utils';
+
+const race = createTestRace({
+  horses: [
+    createTestHorse({ id: 'a', topSpeed: 95 }),
+    createTestHorse({ id: 'b', topSpeed: 85 }),
+    createTestHorse({ id: 'c' }),
+    createTestHorse({ id: 'd', topSpeed: 72 }),
+  ],
+});
+
+const margins = {
+  win: 1.2,
+  place: 1.15,
+  show: 1.1,
+  exacta: 1.3,
+  trifecta: 1.3,
+  superfecta: 1.35,
+  quinella: 1.25,
+  'first-four': 1.3,
+};
+
+describe('Book', () => {
+  it('should normalise formula prices to each market margin', () => {
+    const book = createBook(race, undefined, margins);
+
+    expect(book.source).toBe('formula');
+    expect(book.markets.win.bookPercentage).toBeCloseTo(120, 0);
+    expect(book.markets.place.bookPercentage).toBeCloseTo(115, 0);
+    expect(book.markets.show.bookPercentage).toBeCloseTo(110, 0);
+    expect(book.markets.exacta.bookPercentage).toBeCloseTo(130, 0);
+  });
+
+  it('should keep fair probabilities summing to the places paid', () => {
+    const book = createBook(race, undefined, margins);
+    const fair = (market: BetType) =>
+      book.markets[market].prices.reduce((sum, price) => sum + price.probability, 0);
+
+    expect(fair('win')).toBeCloseTo(1);
+    expect(fair('place')).toBeCloseTo(2);
+    expect(fair('show')).toBeCloseTo(3);
+    expect(fair('exacta')).toBeCloseTo(1);
+    expect(fair('trifecta')).toBeCloseTo(1);
+    expect(fair('first-four')).toBeCloseTo(1);
+    expect(book.markets.exacta.prices).toHaveLength(12);
+    expect(book.markets.trifecta.prices).toHaveLength(24);
+    expect(book.markets.superfecta.prices).toHaveLength(24);
+    expect(book.markets.quinella.prices).toHaveLength(6);
+    expect(book.markets['first-four'].prices).toHaveLength(1);
+  });
+
+  it('should price the favourite shortest in every market', () => {
+    const book = createBook(race, undefined, margins);
+
+    expect(getBookPrice(book, 'win', ['a'])).toBeLessThan(getBookPrice(book, 'win', ['d'])!);
+    expect(getBookPrice(book, 'place', ['a'])).toBeLessThan(getBookPrice(book, 'win', ['a'])!);
+    expect(getBookPrice(book, 'exacta', ['a', 'b'])).toBeLessThan(getBookPrice(book, 'exacta', ['b', 'a'])!);
+    expect(getBookPrice(book, 'exacta', ['a', 'a'])).toBeUndefined();
+  });
+
+  it('should price a quinella at the chance of either exacta order', () => {
+    const book = createBook(race, undefined, margins);
+    const probability = (market: BetType, horseIds: string[]) =>
+      book.markets[market].prices.find((price) => price.horseIds.join() === horseIds.join())!.probability;
+
+    expect(probability('quinella', ['a', 'b'])).toBeCloseTo(
+      probability('exacta', ['a', 'b']) + probability('exacta', ['b', 'a'])
+    );
+    expect(getBookPrice(book, 'trifecta', ['a', 'b', 'c'])).toBeLessThan(getBookPrice(book, 'trifecta', ['d', 'c', 'b'])!);
+  });
+
+  it('should price from simulated probabilities when given them', () => {
+    const probabilities: RaceProbabilities = {
+      raceId: 'race-1',
+      simulations: 1000,
+      complete: true,
+      runners: {
+        a: { win: 0.5, place: 0.8, show: 0.9 },
+        b: { win: 0.3, place: 0.6, show: 0.8 },
+        c: { win: 0.2, place: 0.6, show: 0.8 },
+        d: { win: 0, place: 0, show: 0.5 },
+      },
+    };
+    const book = createBook(race, probabilities, margins);
+
+    expect(book.source).toBe('simulation');
+    expect(getBookPrice(book, 'win', ['a'])).toBeCloseTo(1 / (0.5 * 1.2), 1);
+    // A horse that never won still gets a finite price
+    expect(getBookPrice(book, 'win', ['d'])).toBeLessThanOrEqual(200);
+    expect(book.markets.win.bookPercentage).toBeCloseTo(120, 0);
+  });
+
+  it('should report book percentage per place paid', () => {
+    expect(getBookPercentage([{ odds: 2 }, { odds: 2 }])).toBe(100);
+    expect(getBookPercentage([{ odds: 1.25 }, { odds: 1.25 }, { odds: 1.25 }], 2)).toBeCloseTo(120);
+  });
+});
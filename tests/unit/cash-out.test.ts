@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getBetProbability,
+  getCashOutOffer,
+  getLiveWinProbabilities,
+  isCashOutAvailable,
+  isCashOutSuspended,
+} from '@/utils/cashOut';
+import { getHarvilleFinish } from '@/utils/book';
+import { useBettingStore } from '@/stores/bettingStore';
+import { betsStorage } from '@/utils/localStorage';
+import { HorsePosition } from '@/game/engine/RaceEngine';
+import { CASH_OUT_CONFIG, RaceResult } from '@/types';
+
+const runner = (horseId: string, position: number, velocity = 80, stamina = 80): HorsePosition => ({
+  horseId,
+  position,
+  velocity,
+  stamina,
+  finished: position >= 1,
+  lane: 0,
+  drafting: false,
+  blocked: false,
+});
+
+const result = (horseId: string, position: number): RaceResult => ({
+  horseId,
+  position,
+  time: 0,
+  finalSpeed: 0,
+  margin: 0,
+  sectionals: { splits: [], calls: [] },
+});
+
+const prior = { a: 0.5, b: 0.3, c: 0.2 };
+const sum = (probabilities: Record<string, number>) => Object.values(probabilities).reduce((acc, p) => acc + p, 0);
+
+describe('getLiveWinProbabilities', () => {
+  it('should use the pre-race chances before the off', () => {
+    expect(getLiveWinProbabilities([runner('a', 0, 0), runner('b', 0, 0), runner('c', 0, 0)], prior)).toEqual(prior);
+  });
+
+  it('should favour the runner projected to reach the line first', () => {
+    const live = getLiveWinProbabilities([runner('a', 0.6), runner('b', 0.7), runner('c', 0.6)], prior);
+
+    expect(sum(live)).toBeCloseTo(1);
+    expect(live.b).toBeGreaterThan(prior.b);
+    expect(live.b).toBeGreaterThan(live.a);
+  });
+
+  it('should grow more certain as the race goes on', () => {
+    const early = getLiveWinProbabilities([runner('a', 0.2), runner('b', 0.25), runner('c', 0.2)], prior);
+    const late = getLiveWinProbabilities([runner('a', 0.8), runner('b', 0.85), runner('c', 0.8)], prior);
+
+    expect(late.b).toBeGreaterThan(early.b);
+  });
+
+  it('should expect a tired horse to be caught', () => {
+    const fresh = getLiveWinProbabilities([runner('a', 0.7, 80, 100), runner('b', 0.7, 80, 100), runner('c', 0.7)], prior);
+    const tired = getLiveWinProbabilities([runner('a', 0.7, 80, 0), runner('b', 0.7, 80, 100), runner('c', 0.7)], prior);
+
+    expect(tired.a).toBeLessThan(fresh.a);
+  });
+});
+
+describe('getBetProbability', () => {
+  it('should price single-horse bets over their paid places', () => {
+    expect(getBetProbability({ type: 'win', horseIds: ['c'] }, prior)).toBe(0.2);
+    expect(getBetProbability({ type: 'place', horseIds: ['c'] }, prior)).toBeCloseTo(getHarvilleFinish(prior, 'c', 2));
+    expect(getBetProbability({ type: 'show', horseIds: ['c'] }, prior)).toBeCloseTo(1);
+  });
+
+  it('should price the place part of an each-way bet on its terms', () => {
+    const win = { a: 0.4, b: 0.3, c: 0.2, d: 0.1 };
+    const bet = { type: 'place' as const, horseIds: ['d'], eachWay: { id: 'ew', part: 'place' as const, terms: { places: 3, fraction: 0.2 } } };
+
+    expect(getBetProbability(bet, win)).toBeCloseTo(getHarvilleFinish(win, 'd', 3));
+    expect(getHarvilleFinish(win, 'd', 4)).toBeCloseTo(1);
+  });
+
+  it('should price exotics from the Harville model', () => {
+    expect(getBetProbability({ type: 'exacta', horseIds: ['a', 'b'] }, prior)).toBeCloseTo(0.5 * 0.6);
+    expect(getBetProbability({ type: 'quinella', horseIds: ['a', 'b'] }, prior)).toBeCloseTo(0.5 * 0.6 + 0.3 * (0.5 / 0.7));
+  });
+});
+
+describe('getCashOutOffer', () => {
+  it('should offer the expected return less the margin', () => {
+    const offer = getCashOutOffer({ type: 'win', horseIds: ['a'], potentialPayout: 100 }, prior);
+
+    expect(offer).toBe(Math.floor(100 * 0.5 * (1 - CASH_OUT_CONFIG.MARGIN) * 100) / 100);
+  });
+
+  it('should suspend offers as the leader nears the line', () => {
+    expect(isCashOutSuspended([runner('a', 0.5), runner('b', 0.4)])).toBe(false);
+    expect(isCashOutSuspended([runner('a', CASH_OUT_CONFIG.SUSPEND_PROGRESS), runner('b', 0.9)])).toBe(true);
+    expect(isCashOutSuspended([runner('a', 1), runner('b', 0.99)])).toBe(true);
+  });
+});
+
+describe('isCashOutAvailable', () => {
+  it('should only offer cash-out on pending fixed odds bets', () => {
+    expect(isCashOutAvailable({ mode: 'fixed', status: 'pending' })).toBe(true);
+    expect(isCashOutAvailable({ mode: 'tote', status: 'pending' })).toBe(false);
+    expect(isCashOutAvailable({ mode: 'fixed', status: 'won' })).toBe(false);
+  });
+});
+
+describe('cashOutBet', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useBettingStore.setState({ currentBets: [] });
+  });
+
+  it('should settle the bet early and leave it out of race settlement', () => {
+    const { addBet } = useBettingStore.getState();
+    addBet({
+      raceId: 'race-1', type: 'win', mode: 'fixed', horseIds: ['a'], amount: 10, odds: 5, potentialPayout: 50, winnings: 0, status: 'pending',
+    });
+    const [bet] = useBettingStore.getState().currentBets;
+
+    expect(useBettingStore.getState().cashOutBet(bet.id, 22.5)).toMatchObject({ status: 'cashed-out', winnings: 22.5 });
+    expect(useBettingStore.getState().cashOutBet(bet.id, 22.5)).toBeUndefined();
+
+    const settled = useBettingStore.getState().settleBets('race-1', [result('a', 1), result('b', 2)]);
+
+    expect(settled.totalWinnings).toBe(0);
+    expect(useBettingStore.getState().currentBets[0]).toMatchObject({ status: 'cashed-out', winnings: 22.5 });
+    expect(betsStorage.get()[0]).toMatchObject({ status: 'cashed-out', winnings: 22.5 });
+  });
+
+  it('should not cash out a tote bet', () => {
+    useBettingStore.getState().addBet({
+      raceId: 'race-1', type: 'win', mode: 'tote', horseIds: ['a'], amount: 10, odds: 5, potentialPayout: 50, winnings: 0, status: 'pending',
+    });
+    const [bet] = useBettingStore.getState().currentBets;
+
+    expect(useBettingStore.getState().cashOutBet(bet.id, 22.5)).toBeUndefined();
+    expect(useBettingStore.getState().currentBets[0].status).toBe('pending');
+  });
+});
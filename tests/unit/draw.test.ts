@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { describeDrawBias, drawGates, getDistanceBand, getDrawBias, getGate } from '@/utils/draw';
+import { createSeededRandom } from '@/utils/random';
+import { generateRace } from '@/utils/raceScheduler';
+import { Race } from '@/types';
+import { createTestRace } from '../helpers/test-utils';
+
+const mockRace = createTestRace({
+  track: 'meadowbrook',
+  draw: { 'horse-1': 2, 'horse-2': 1 },
+  distance: 1200,
+});
+
+describe('Draw', () => {
+  it('should assign every horse a distinct gate from 1', () => {
+    const draw = drawGates(mockRace.horses, createSeededRandom(1));
+
+    expect(Object.values(draw).sort()).toEqual([1, 2]);
+    expect(Object.keys(draw).sort()).toEqual(['horse-1', 'horse-2']);
+  });
+
+  it('should draw the same gates for the same race seed', () => {
+    expect(generateRace(mockRace.horses, 42).draw).toEqual(generateRace(mockRace.horses, 42).draw);
+  });
+
+  it('should fall back to field order for races without a draw', () => {
+    const race = { ...mockRace, draw: undefined } as unknown as Race;
+
+    expect(getGate(race, 'horse-1')).toBe(1);
+    expect(getGate(race, 'horse-2')).toBe(2);
+  });
+
+  it('should band distances', () => {
+    expect(getDistanceBand(1000)).toBe('sprint');
+    expect(getDistanceBand(1600)).toBe('mile');
+    expect(getDistanceBand(2000)).toBe('route');
+  });
+
+  it('should favour low draws in sprints at Meadowbrook', () => {
+    const race: Race = { ...mockRace, track: 'meadowbrook', distance: 1200 };
+
+    // horse-2 is drawn on the rail
+    expect(getDrawBias(race, 'horse-2')).toBeGreaterThan(1);
+    expect(getDrawBias(race, 'horse-1')).toBeLessThan(1);
+    expect(describeDrawBias(race)).toBe('Low draws strongly favoured');
+  });
+
+  it('should have no effect where the track has no bias', () => {
+    const race: Race = { ...mockRace, track: 'meadowbrook', distance: 1900 };
+
+    expect(getDrawBias(race, 'horse-1')).toBe(1);
+    expect(getDrawBias(race, 'horse-2')).toBe(1);
+    expect(describeDrawBias(race)).toBe('No draw bias');
+  });
+});
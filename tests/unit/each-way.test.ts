@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { formatEachWayTerms, getEachWayPlaceOdds, getEachWayTerms } from '@/utils/eachWay';
+import { getSettlementFactor } from '@/utils/settlement';
+import { useBettingStore } from '@/stores/bettingStore';
+import { Horse, RaceResult, RaceType } from '@/types';
+
+const field = (runners: number, raceType: RaceType = 'stakes') => ({
+  horses: Array.from({ length: runners }, (_, i) => ({ id: `h${i}` }) as Horse),
+  raceType,
+});
+
+const result = (horseId: string, position: number, deadHeat = false): RaceResult => ({
+  horseId,
+  position,
+  time: 0,
+  finalSpeed: 0,
+  margin: 0,
+  deadHeat,
+  sectionals: { splits: [], calls: [] },
+});
+
+describe('getEachWayTerms', () => {
+  it('should offer no each-way terms in small fields', () => {
+    expect(getEachWayTerms(field(4))).toBeUndefined();
+  });
+
+  it('should pay more places as the field grows', () => {
+    expect(getEachWayTerms(field(6))).toEqual({ places: 2, fraction: 1 / 4 });
+    expect(getEachWayTerms(field(8))).toEqual({ places: 3, fraction: 1 / 5 });
+    expect(getEachWayTerms(field(14))).toEqual({ places: 3, fraction: 1 / 5 });
+  });
+
+  it('should give big-field handicaps better terms', () => {
+    expect(getEachWayTerms(field(6, 'handicap'))).toEqual({ places: 2, fraction: 1 / 4 });
+    expect(getEachWayTerms(field(12, 'handicap'))).toEqual({ places: 3, fraction: 1 / 4 });
+    expect(getEachWayTerms(field(16, 'handicap'))).toEqual({ places: 4, fraction: 1 / 4 });
+  });
+
+  it('should describe the terms', () => {
+    expect(formatEachWayTerms({ places: 3, fraction: 1 / 5 })).toBe('1/5 odds, 3 places');
+  });
+});
+
+describe('getEachWayPlaceOdds', () => {
+  it('should pay the fraction of the winnings plus the stake', () => {
+    expect(getEachWayPlaceOdds(9, { places: 2, fraction: 1 / 4 })).toBe(3);
+    expect(getEachWayPlaceOdds(11, { places: 3, fraction: 1 / 5 })).toBe(3);
+  });
+});
+
+describe('each-way settlement', () => {
+  const terms = { places: 3, fraction: 1 / 5 };
+  const placePart = (horseId: string) => ({
+    type: 'place' as const,
+    horseIds: [horseId],
+    eachWay: { id: 'ew', part: 'place' as const, terms },
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    useBettingStore.setState({ currentBets: [] });
+  });
+
+  it('should settle the place part on its own terms', () => {
+    const results = [result('a', 1), result('b', 2), result('c', 3), result('d', 4)];
+
+    expect(getSettlementFactor(placePart('c'), results)).toBe(1);
+    expect(getSettlementFactor(placePart('d'), results)).toBe(0);
+    // The place market only pays the first two
+    expect(getSettlementFactor({ type: 'place', horseIds: ['c'] }, results)).toBe(0);
+  });
+
+  it('should share the place part on a dead heat for the last place', () => {
+    const results = [result('a', 1), result('b', 2), result('c', 3, true), result('d', 3, true)];
+
+    expect(getSettlementFactor(placePart('d'), results)).toBe(0.5);
+  });
+
+  it('should place linked win and place parts and settle each', () => {
+    const { addEachWayBet, settleBets } = useBettingStore.getState();
+    const [win, place] = addEachWayBet({
+      raceId: 'race-1', mode: 'fixed', horseIds: ['b'], amount: 10, odds: 6, potentialPayout: 0, winnings: 0, status: 'pending',
+    }, terms);
+
+    expect(win.eachWay?.id).toBe(place.eachWay?.id);
+    expect(win.potentialPayout).toBe(60);
+    expect(place.odds).toBe(2);
+    expect(place.potentialPayout).toBe(20);
+
+    const settled = settleBets('race-1', [result('a', 1), result('b', 2), result('c', 3)]);
+
+    expect(settled).toMatchObject({ totalWinnings: 20, totalStake: 20, wonBets: 1, lostBets: 1 });
+  });
+
+  it('should cancel both parts together', () => {
+    const { addEachWayBet, cancelBet } = useBettingStore.getState();
+    const [win] = addEachWayBet({
+      raceId: 'race-1', mode: 'fixed', horseIds: ['b'], amount: 10, odds: 6, potentialPayout: 0, winnings: 0, status: 'pending',
+    }, terms);
+
+    const cancelled = cancelBet(win.id, Date.now() + 60 * 1000);
+
+    expect(cancelled).toHaveLength(2);
+    expect(useBettingStore.getState().currentBets).toHaveLength(0);
+  });
+});
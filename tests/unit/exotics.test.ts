@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { BET_SELECTIONS, expandLines, getCombinations, getPermutations, normaliseLine } from '@/utils/exotics';
+
+describe('Exotic combinations', () => {
+  it('should count permutations and combinations', () => {
+    expect(getPermutations(['a', 'b', 'c', 'd'], 3)).toHaveLength(24);
+    expect(getCombinations(['a', 'b', 'c', 'd'], 2)).toEqual([
+      ['a', 'b'], ['a', 'c'], ['a', 'd'], ['b', 'c'], ['b', 'd'], ['c', 'd'],
+    ]);
+  });
+
+  it('should expand a straight selection into one line', () => {
+    expect(expandLines('trifecta', 'straight', ['c', 'a', 'b'])).toEqual([['c', 'a', 'b']]);
+    expect(expandLines('quinella', 'straight', ['c', 'a'])).toEqual([['a', 'c']]);
+    expect(expandLines('trifecta', 'straight', ['c', 'a'])).toEqual([]);
+  });
+
+  it('should box every order for ordered bets and every set for unordered ones', () => {
+    expect(expandLines('exacta', 'box', ['a', 'b', 'c'])).toHaveLength(6);
+    expect(expandLines('trifecta', 'box', ['a', 'b', 'c', 'd'])).toHaveLength(24);
+    expect(expandLines('superfecta', 'box', ['a', 'b', 'c', 'd', 'e'])).toHaveLength(120);
+    expect(expandLines('quinella', 'box', ['a', 'b', 'c'])).toHaveLength(3);
+    expect(expandLines('first-four', 'box', ['a', 'b', 'c', 'd', 'e'])).toHaveLength(5);
+    expect(expandLines('trifecta', 'box', ['a', 'b'])).toEqual([]);
+  });
+
+  it('should keep bankers fixed with the others filling the rest', () => {
+    const lines = expandLines('trifecta', 'banker', ['b', 'c', 'd'], ['a']);
+
+    expect(lines).toHaveLength(6);
+    lines.forEach((line) => expect(line[0]).toBe('a'));
+
+    const quinellas = expandLines('quinella', 'banker', ['a', 'c', 'd'], ['b']);
+    expect(quinellas).toEqual([['a', 'b'], ['b', 'c'], ['b', 'd']]);
+    expect(expandLines('exacta', 'banker', ['b'], [])).toEqual([]);
+  });
+
+  it('should label the any-order first four apart from the superfecta', () => {
+    expect(BET_SELECTIONS['first-four']).toMatchObject({ label: 'Boxed First Four', horses: 4, ordered: false });
+    expect(BET_SELECTIONS.superfecta).toMatchObject({ horses: 4, ordered: true });
+  });
+
+  it('should normalise unordered lines so they match however they are picked', () => {
+    expect(normaliseLine('first-four', ['d', 'b', 'c', 'a'])).toEqual(['a', 'b', 'c', 'd']);
+    expect(normaliseLine('exacta', ['b', 'a'])).toEqual(['b', 'a']);
+  });
+});
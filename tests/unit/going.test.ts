@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { describeGoing, getGoingIndex, getGoingMultiplier } from '@/utils/going';
+import { calculateOdds } from '@/utils/oddsCalculator';
+import { Race } from '@/types';
+import { createTestHorse, createTestRace } from '../helpers/test-utils';
+
+describe('Going', () => {
+  it('should soften the ground as the weather worsens', () => {
+    expect(getGoingIndex('firm', 'rain')).toBeGreaterThan(getGoingIndex('firm', 'clear'));
+    expect(getGoingIndex('soft', 'muddy')).toBeGreaterThan(getGoingIndex('soft', 'rain'));
+    expect(getGoingIndex('heavy', 'muddy')).toBeLessThanOrEqual(10);
+  });
+
+  it('should describe the going', () => {
+    expect(describeGoing(getGoingIndex('firm', 'clear'))).toBe('Firm');
+    expect(describeGoing(getGoingIndex('heavy', 'rain'))).toBe('Heavy');
+  });
+
+  it('should favour horses on their preferred ground', () => {
+    const going = getGoingIndex('firm', 'clear');
+
+    expect(getGoingMultiplier(createTestHorse({ trackPreference: 'firm' }), going))
+      .toBeGreaterThan(getGoingMultiplier(createTestHorse({ trackPreference: 'heavy' }), going));
+  });
+
+  it('should use weatherModifier more as the ground gets wetter', () => {
+    const mudlark = createTestHorse({ weatherModifier: 1.1 });
+    const dislikesWet = createTestHorse({ weatherModifier: 0.9 });
+    const gap = (going: number) => getGoingMultiplier(mudlark, going) - getGoingMultiplier(dislikesWet, going);
+
+    expect(gap(getGoingIndex('soft', 'muddy'))).toBeGreaterThan(gap(getGoingIndex('firm', 'clear')));
+    expect(gap(getGoingIndex('firm', 'clear'))).toBeGreaterThan(0);
+  });
+
+  it('should move the odds with the going the engine sees', () => {
+    const mudlark = createTestHorse({ id: 'mudlark', trackPreference: 'heavy', weatherModifier: 1.1 });
+    const race = (trackSurface: Race['trackSurface']) => createTestRace({
+      horses: [mudlark, createTestHorse({ id: 'rival' })],
+      trackSurface,
+    });
+
+    expect(calculateOdds(mudlark, race('heavy'))).toBeLessThan(calculateOdds(mudlark, race('firm')));
+  });
+});
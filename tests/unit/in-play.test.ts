@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { isInPlaySuspended, priceInPlay } from '@/utils/inPlay';
+import { RaceSnapshot } from '@/game/engine/RaceEngine';
+import { IN_PLAY_CONFIG, ODDS_CONFIG } from '@/types';
+
+const snapshot = (progress: number, finished = false): RaceSnapshot => ({
+  time: 0,
+  positions: [],
+  leader: 'a',
+  progress,
+  remainingMetres: {},
+  finished,
+});
+
+describe('isInPlaySuspended', () => {
+  it('should keep markets open through the early part of the race', () => {
+    expect(isInPlaySuspended(snapshot(0))).toBe(false);
+    expect(isInPlaySuspended(snapshot(IN_PLAY_CONFIG.SUSPEND_PROGRESS - 0.01))).toBe(false);
+  });
+
+  it('should suspend markets near the finish and once the race is over', () => {
+    expect(isInPlaySuspended(snapshot(IN_PLAY_CONFIG.SUSPEND_PROGRESS))).toBe(true);
+    expect(isInPlaySuspended(snapshot(0.3, true))).toBe(true);
+  });
+});
+
+describe('priceInPlay', () => {
+  it('should price the win market to the in-play margin', () => {
+    const market = priceInPlay({ a: 0.5, b: 0.3, c: 0.2 });
+
+    expect(market.prices.map((price) => price.horseIds[0])).toEqual(['a', 'b', 'c']);
+    expect(market.prices[0].odds).toBeCloseTo(1 / (0.5 * IN_PLAY_CONFIG.MARGIN), 2);
+    expect(market.bookPercentage).toBeCloseTo(IN_PLAY_CONFIG.MARGIN * 100, 0);
+  });
+
+  it('should cap long shots and keep certainties above evens', () => {
+    const market = priceInPlay({ a: 0.999, b: 0.001 });
+
+    expect(market.prices[0].odds).toBe(1.01);
+    expect(market.prices[1].odds).toBe(ODDS_CONFIG.MAX_ODDS);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { formatMargin, metresToLengths, HORSE_LENGTH_METRES } from '@/utils/margins';
+
+describe('margins', () => {
+  it('should convert metres to lengths', () => {
+    expect(metresToLengths(HORSE_LENGTH_METRES * 3)).toBeCloseTo(3);
+  });
+
+  it('should use racing terms for short margins', () => {
+    expect(formatMargin(0)).toBe('');
+    expect(formatMargin(0.02)).toBe('nose');
+    expect(formatMargin(0.08)).toBe('short head');
+    expect(formatMargin(0.15)).toBe('head');
+    expect(formatMargin(0.25)).toBe('neck');
+  });
+
+  it('should round longer margins to standard fractions', () => {
+    expect(formatMargin(0.4)).toBe('½');
+    expect(formatMargin(0.8)).toBe('¾');
+    expect(formatMargin(1.3)).toBe('1¼');
+    expect(formatMargin(3.3)).toBe('3½');
+    expect(formatMargin(12.4)).toBe('12');
+    expect(formatMargin(45)).toBe('dist');
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  addPlayerStake,
+  advanceMarket,
+  catchUpMarket,
+  closeMarket,
+  createMarket,
+  getMarketTicks,
+  getPriceMovement,
+  isMarketSettled,
+} from '@/utils/market';
+import { adjustBook, createBook, getBookPrice } from '@/utils/book';
+import { useMarketStore } from '@/stores/marketStore';
+import { Market, MARKET_CONFIG } from '@/types';
+import { createTestHorse, createTestRace } from '../helpers/test-utils';
+
+// Moves between the race being put on the card and the off
+const TICKS = 30;
+
+const race = createTestRace({
+  horses: [
+    createTestHorse({ id: 'a', topSpeed: 95 }),
+    createTestHorse({ id: 'b', topSpeed: 85 }),
+    createTestHorse({ id: 'c' }),
+    createTestHorse({ id: 'd', topSpeed: 72 }),
+  ],
+  scheduledAt: 0,
+  startTime: TICKS * MARKET_CONFIG.TICK_MS,
+});
+
+const opening = createBook(race);
+
+function runMarket(ticks: number): Market {
+  let market = createMarket(race, opening);
+  for (let i = 0; i < ticks; i++) {
+    market = advanceMarket(market, race, opening);
+  }
+  return market;
+}
+
+describe('Market', () => {
+  it('should open at the book prices', () => {
+    const market = createMarket(race, opening);
+
+    expect(market.book).toBe(opening);
+    expect(market.history.a).toEqual([getBookPrice(opening, 'win', ['a'])]);
+    expect(getPriceMovement(market, 'a')).toBe(0);
+  });
+
+  it('should move prices and record their history', () => {
+    const market = runMarket(10);
+
+    expect(market.tick).toBe(10);
+    race.horses.forEach((h) => expect(market.history[h.id]).toHaveLength(11));
+    expect(race.horses.some((h) => getPriceMovement(market, h.id) !== 0)).toBe(true);
+  });
+
+  it('should move the same way every time for a race', () => {
+    expect(runMarket(10)).toEqual(runMarket(10));
+  });
+
+  it('should keep the book at its margin as prices move', () => {
+    const market = runMarket(TICKS);
+
+    expect(market.book.markets.win.bookPercentage).toBeCloseTo(opening.markets.win.bookPercentage, 0);
+    expect(market.book.markets.exacta.bookPercentage).toBeCloseTo(opening.markets.exacta.bookPercentage, 0);
+  });
+
+  it('should settle for the off after the last move', () => {
+    const settled = runMarket(TICKS);
+
+    expect(isMarketSettled(settled, race)).toBe(true);
+    expect(advanceMarket(settled, race, opening)).toBe(settled);
+  });
+
+  it('should move once a tick from scheduling until the off', () => {
+    expect(getMarketTicks(race, 0)).toBe(0);
+    expect(getMarketTicks(race, MARKET_CONFIG.TICK_MS * 5.5)).toBe(5);
+    expect(getMarketTicks(race, race.startTime * 10)).toBe(TICKS);
+  });
+
+  it('should catch up a market nobody has read, as if it had moved all along', () => {
+    const unread = createMarket(race, opening);
+
+    expect(catchUpMarket(unread, race, opening, MARKET_CONFIG.TICK_MS * 12)).toEqual(runMarket(12));
+    expect(catchUpMarket(runMarket(4), race, opening, MARKET_CONFIG.TICK_MS * 12)).toEqual(runMarket(12));
+  });
+
+  it('should hold the prices a market closed at', () => {
+    const closed = closeMarket(createMarket(race, opening), race, opening, MARKET_CONFIG.TICK_MS * 8);
+
+    expect(closed.tick).toBe(8);
+    expect(catchUpMarket(closed, race, opening, race.startTime)).toBe(closed);
+  });
+
+  it('should open and catch up a market when it is first read', () => {
+    useMarketStore.setState({ markets: {} });
+
+    const market = useMarketStore.getState().catchUp(race, opening, MARKET_CONFIG.TICK_MS * 6);
+
+    expect(market).toEqual(runMarket(6));
+    expect(useMarketStore.getState().markets[race.id]).toBe(market);
+  });
+
+  it('should move towards hidden form signals', () => {
+    const market = runMarket(TICKS);
+    const [strongest, weakest] = [...race.horses]
+      .sort((x, y) => market.signals[y.id] - market.signals[x.id])
+      .map((h) => h.id)
+      .filter((_, i, ids) => i === 0 || i === ids.length - 1);
+
+    expect(market.drift[strongest]).toBeGreaterThan(market.drift[weakest]);
+  });
+
+  it('should shorten the price of a horse the player backs', () => {
+    const market = createMarket(race, opening);
+    const backed = addPlayerStake(market, ['d'], 2000);
+
+    expect(getBookPrice(backed.book, 'win', ['d'])!).toBeLessThan(getBookPrice(market.book, 'win', ['d'])!);
+    expect(getBookPrice(backed.book, 'win', ['a'])!).toBeGreaterThanOrEqual(getBookPrice(market.book, 'win', ['a'])!);
+  });
+
+  it('should restore the prices when a backed stake is withdrawn', () => {
+    const market = runMarket(TICKS);
+    const backed = addPlayerStake(market, ['d'], 5000);
+    const withdrawn = addPlayerStake(backed, ['d'], -5000);
+
+    expect(withdrawn.book).toEqual(market.book);
+  });
+
+  it('should not let a cancelled bet move the prices it was placed at', () => {
+    useMarketStore.setState({ markets: { [race.id]: runMarket(5) } });
+    const before = useMarketStore.getState().markets[race.id].book;
+
+    useMarketStore.getState().recordStake(race.id, ['a', 'b'], 3000);
+    useMarketStore.getState().recordStake(race.id, ['a', 'b'], -3000);
+
+    expect(useMarketStore.getState().markets[race.id].book).toEqual(before);
+  });
+
+  it('should leave a book unchanged when nothing has moved', () => {
+    const unchanged = adjustBook(opening, {});
+
+    expect(getBookPrice(unchanged, 'win', ['a'])).toBe(getBookPrice(opening, 'win', ['a']));
+    expect(getBookPrice(unchanged, 'exacta', ['a', 'b'])).toBe(getBookPrice(opening, 'exacta', ['a', 'b']));
+  });
+});
+
+describe('Markets across a reload', () => {
+  // A fresh copy of the store, as after a page reload
+  const reloadStore = async () => {
+    vi.resetModules();
+    return (await import('@/stores/marketStore')).useMarketStore;
+  };
+
+  it('should keep open markets, with the player\'s stakes, but not closed ones', async () => {
+    localStorage.clear();
+    const store = await reloadStore();
+    const closed = { ...race, id: 'race-2' };
+    store.getState().catchUp(race, opening, MARKET_CONFIG.TICK_MS * 5);
+    store.getState().recordStake(race.id, ['d'], 5000);
+    store.getState().closeMarket(closed, opening, MARKET_CONFIG.TICK_MS * 5);
+    const market = store.getState().markets[race.id];
+
+    const reloaded = await reloadStore();
+
+    expect(reloaded.getState().markets[race.id]).toEqual(market);
+    expect(reloaded.getState().markets[race.id].playerStakes).toEqual({ d: 5000 });
+    expect(reloaded.getState().markets['race-2']).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { estimateProbabilities } from '@/utils/monteCarloOdds';
+import { createTestHorse, createTestRace } from '../helpers/test-utils';
+
+const race = createTestRace({
+  horses: [
+    createTestHorse({ id: 'star', topSpeed: 86 }),
+    createTestHorse({ id: 'a' }),
+    createTestHorse({ id: 'b' }),
+    createTestHorse({ id: 'c' }),
+  ],
+  distance: 1000,
+  seed: 2024,
+});
+
+describe('Monte Carlo odds', () => {
+  const estimate = estimateProbabilities(race, 100);
+
+  it('should estimate probabilities that sum to the places paid', () => {
+    const runners = Object.values(estimate.runners);
+    const total = (market: 'win' | 'place' | 'show') => runners.reduce((sum, r) => sum + r[market], 0);
+
+    expect(estimate.simulations).toBe(100);
+    expect(total('win')).toBeCloseTo(1);
+    expect(total('place')).toBeCloseTo(2);
+    expect(total('show')).toBeCloseTo(3);
+  });
+
+  it('should make the best horse favourite', () => {
+    const { star, a } = estimate.runners;
+
+    expect(star.win).toBeGreaterThan(a.win);
+    expect(star.show).toBeGreaterThanOrEqual(star.place);
+    expect(star.place).toBeGreaterThanOrEqual(star.win);
+  });
+
+  it('should give the same estimates for the same race', () => {
+    expect(estimateProbabilities(race, 20)).toEqual(estimateProbabilities(race, 20));
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { countMultiLines, settleLeg, settleMultiBet, validateMultiLegs } from '@/utils/multiBets';
+import { MultiBet, MultiBetLeg, RaceResult } from '@/types';
+
+const result = (horseId: string, position: number, deadHeat = false): RaceResult => ({
+  horseId,
+  position,
+  time: 0,
+  finalSpeed: 0,
+  margin: 0,
+  deadHeat,
+  sectionals: { splits: [], calls: [] },
+});
+
+const leg = (raceId: string, odds: Record<string, number>): MultiBetLeg => ({
+  raceId,
+  horseIds: Object.keys(odds),
+  odds,
+  status: 'pending',
+});
+
+const dailyDouble = (): MultiBet => ({
+  id: 'multi-1',
+  type: 'daily-double',
+  legs: [leg('race-1', { a: 3 }), leg('race-2', { b: 4, c: 6 })],
+  stake: 10,
+  lines: 2,
+  amount: 20,
+  potentialPayout: 180,
+  winnings: 0,
+  status: 'pending',
+  placedAt: 0,
+});
+
+describe('validateMultiLegs', () => {
+  const card = ['r1', 'r2', 'r3', 'r4'];
+
+  it('should need the right number of legs', () => {
+    expect(validateMultiLegs('pick-3', [leg('r1', { a: 2 }), leg('r2', { b: 2 })], card)).toBe('A Pick 3 needs 3 races');
+    expect(validateMultiLegs('daily-double', [leg('r1', { a: 2 }), leg('r2', { b: 2 })], card)).toBeUndefined();
+  });
+
+  it('should need a horse in every leg and distinct races', () => {
+    expect(validateMultiLegs('daily-double', [leg('r1', { a: 2 }), leg('r2', {})], card)).toBe('Pick a horse in every leg');
+    expect(validateMultiLegs('daily-double', [leg('r1', { a: 2 }), leg('r1', { b: 2 })], card)).toBe('Each race can only be one leg');
+  });
+
+  it('should run pick bets over consecutive races on the card', () => {
+    expect(validateMultiLegs('daily-double', [leg('r1', { a: 2 }), leg('r3', { b: 2 })], card))
+      .toBe('A Daily Double is run over consecutive races');
+    expect(validateMultiLegs('daily-double', [leg('r3', { a: 2 }), leg('r2', { b: 2 })], card))
+      .toBe('A Daily Double is run over consecutive races');
+    expect(validateMultiLegs('pick-3', [leg('r2', { a: 2 }), leg('r3', { b: 2 }), leg('r4', { c: 2 })], card)).toBeUndefined();
+    expect(validateMultiLegs('accumulator', [leg('r1', { a: 2 }), leg('r4', { b: 2 })], card)).toBeUndefined();
+  });
+
+  it('should only take races still on the card', () => {
+    expect(validateMultiLegs('accumulator', [leg('r1', { a: 2 }), leg('r9', { b: 2 })], card))
+      .toBe('Every leg must be a race still on the card');
+  });
+
+  it('should take one horse per race in an accumulator', () => {
+    expect(validateMultiLegs('accumulator', [leg('r1', { a: 2, b: 3 }), leg('r2', { c: 2 })], card))
+      .toBe('An accumulator takes one horse per race');
+  });
+});
+
+describe('countMultiLines', () => {
+  it('should multiply the horses covered in each leg', () => {
+    expect(countMultiLines([])).toBe(0);
+    expect(countMultiLines([leg('r1', { a: 2, b: 3 }), leg('r2', { c: 2, d: 2, e: 2 })])).toBe(6);
+  });
+});
+
+describe('settleLeg', () => {
+  it('should return the win price of the covered winner', () => {
+    expect(settleLeg(leg('r1', { a: 3, b: 5 }), [result('b', 1), result('a', 2)]))
+      .toMatchObject({ status: 'won', returns: 5 });
+    expect(settleLeg(leg('r1', { a: 3 }), [result('b', 1), result('a', 2)]))
+      .toMatchObject({ status: 'lost', returns: 0 });
+  });
+
+  it('should share the price on a dead heat', () => {
+    const deadHeat = [result('a', 1, true), result('b', 1, true), result('c', 3)];
+
+    expect(settleLeg(leg('r1', { a: 4 }), deadHeat).returns).toBe(2);
+    expect(settleLeg(leg('r1', { a: 4, b: 6 }), deadHeat).returns).toBe(5);
+  });
+});
+
+describe('settleMultiBet', () => {
+  it('should stay pending while legs are still to run', () => {
+    const bet = settleMultiBet(dailyDouble(), 'race-1', [result('a', 1), result('b', 2)]);
+
+    expect(bet.status).toBe('pending');
+    expect(bet.legs.map((l) => l.status)).toEqual(['won', 'pending']);
+  });
+
+  it('should lose as soon as a leg loses', () => {
+    const bet = settleMultiBet(dailyDouble(), 'race-1', [result('b', 1), result('a', 2)]);
+
+    expect(bet.status).toBe('lost');
+    expect(bet.winnings).toBe(0);
+  });
+
+  it('should pay the stake times every leg once all have won', () => {
+    const afterFirst = settleMultiBet(dailyDouble(), 'race-1', [result('a', 1)]);
+    const bet = settleMultiBet(afterFirst, 'race-2', [result('c', 1), result('b', 2)]);
+
+    expect(bet.status).toBe('won');
+    expect(bet.winnings).toBe(10 * 3 * 6);
+  });
+
+  it('should ignore races the bet has no leg in', () => {
+    const bet = dailyDouble();
+    expect(settleMultiBet(bet, 'race-9', [result('a', 1)])).toBe(bet);
+  });
+});
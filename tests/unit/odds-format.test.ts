@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { formatOdds, toAmerican, toFractional, toImpliedProbability } from '@/utils/oddsFormat';
+import { useSettingsStore } from '@/stores/settingsStore';
+
+describe('toFractional', () => {
+  it('should convert exact prices to their fractions', () => {
+    expect(toFractional(3.5)).toBe('5/2');
+    expect(toFractional(2.375)).toBe('11/8');
+    expect(toFractional(6)).toBe('5/1');
+    expect(toFractional(1.5)).toBe('1/2');
+  });
+
+  it('should quote evens rather than 1/1', () => {
+    expect(toFractional(2)).toBe('Evens');
+  });
+
+  it('should round to the nearest standard price', () => {
+    expect(toFractional(4.33)).toBe('10/3');
+    expect(toFractional(3.6)).toBe('5/2');
+    expect(toFractional(1.91)).toBe('10/11');
+    expect(toFractional(1.01)).toBe('1/100');
+  });
+
+  it('should quote prices beyond the ladder to the nearest point', () => {
+    expect(toFractional(5001)).toBe('5000/1');
+  });
+});
+
+describe('toAmerican', () => {
+  it('should show winnings on 100 for prices of evens or longer', () => {
+    expect(toAmerican(3.5)).toBe('+250');
+    expect(toAmerican(2)).toBe('+100');
+  });
+
+  it('should show the stake to win 100 for odds-on prices', () => {
+    expect(toAmerican(1.5)).toBe('-200');
+    expect(toAmerican(1.25)).toBe('-400');
+  });
+});
+
+describe('toImpliedProbability', () => {
+  it('should show the chance implied by the price', () => {
+    expect(toImpliedProbability(4)).toBe('25.0%');
+    expect(toImpliedProbability(3)).toBe('33.3%');
+  });
+});
+
+describe('formatOdds', () => {
+  it('should format in decimal by default', () => {
+    expect(formatOdds(2.5)).toBe('2.50');
+  });
+
+  it('should format in the chosen format', () => {
+    expect(formatOdds(2.5, 'fractional')).toBe('6/4');
+    expect(formatOdds(2.5, 'american')).toBe('+150');
+    expect(formatOdds(2.5, 'probability')).toBe('40.0%');
+  });
+});
+
+describe('useSettingsStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useSettingsStore.setState({ oddsFormat: 'decimal' });
+  });
+
+  it('should persist the preferred odds format', () => {
+    useSettingsStore.getState().setOddsFormat('fractional');
+
+    expect(useSettingsStore.getState().oddsFormat).toBe('fractional');
+    expect(JSON.parse(localStorage.getItem('turf-sprint-settings') ?? '{}').state.oddsFormat).toBe('fractional');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { getLineTotals, priceEachWay, priceLines } from '@/utils/pricing';
+import { createBook, getBookPrice } from '@/utils/book';
+import { addToPool, createTote, getApproximateDividend } from '@/utils/tote';
+import { createTestHorse, createTestRace } from '../helpers/test-utils';
+
+const race = createTestRace({
+  horses: [
+    createTestHorse({ id: 'a', topSpeed: 95 }),
+    createTestHorse({ id: 'b', topSpeed: 85 }),
+    createTestHorse({ id: 'c' }),
+    createTestHorse({ id: 'd', topSpeed: 72 }),
+  ],
+  trackSurface: 'soft',
+  weather: 'rain',
+});
+
+const book = createBook(race);
+
+describe('priceLines', () => {
+  it('should price single bets in their own market', () => {
+    const [win] = priceLines({ book }, 'fixed', 'win', [['a']], 10)!;
+    const [place] = priceLines({ book }, 'fixed', 'place', [['a']], 10)!;
+
+    expect(win.odds).toBe(getBookPrice(book, 'win', ['a']));
+    expect(place.odds).toBe(getBookPrice(book, 'place', ['a']));
+    expect(place.potentialPayout).toBeCloseTo(place.odds * 10);
+  });
+
+  it('should price each exotic line from the exotic market, not the first horse', () => {
+    const lines = priceLines({ book }, 'fixed', 'exacta', [['a', 'b'], ['b', 'a']], 10)!;
+
+    expect(lines.map((line) => line.odds)).toEqual([
+      getBookPrice(book, 'exacta', ['a', 'b']),
+      getBookPrice(book, 'exacta', ['b', 'a']),
+    ]);
+    expect(lines[0].odds).not.toBe(getBookPrice(book, 'win', ['a']));
+  });
+
+  it('should price from the race it is given', () => {
+    const firm = createBook({ ...race, trackSurface: 'firm', weather: 'clear' });
+
+    expect(priceLines({ book: firm }, 'fixed', 'win', [['c']], 10)![0].odds)
+      .toBe(getBookPrice(firm, 'win', ['c']));
+  });
+
+  it('should estimate tote lines with the earlier lines in the pools', () => {
+    const tote = addToPool(createTote(race), 'quinella', ['a', 'b'], 100);
+    const lines = priceLines({ book, tote }, 'tote', 'quinella', [['a', 'b'], ['a', 'c']], 10)!;
+
+    const pools = addToPool(addToPool(tote, 'quinella', ['a', 'b'], 10), 'quinella', ['a', 'c'], 10);
+    expect(lines[1].odds).toBe(getApproximateDividend(pools, 'quinella', ['a', 'c']));
+  });
+
+  it('should not price tote bets without pools', () => {
+    expect(priceLines({ book }, 'tote', 'win', [['a']], 10)).toBeUndefined();
+  });
+
+  it('should not price a line the book does not offer', () => {
+    expect(priceLines({ book }, 'fixed', 'win', [['z']], 10)).toBeUndefined();
+  });
+});
+
+describe('priceEachWay', () => {
+  it('should price the place part at the fraction of the win price', () => {
+    const prices = priceEachWay({ book }, 'b', { places: 2, fraction: 1 / 4 }, 20)!;
+    const win = getBookPrice(book, 'win', ['b'])!;
+
+    expect(prices.win.odds).toBe(win);
+    expect(prices.place.odds).toBeCloseTo(1 + (win - 1) / 4);
+    expect(prices.place.stake).toBe(20);
+  });
+});
+
+describe('getLineTotals', () => {
+  it('should add up the stakes and returns of every line', () => {
+    expect(getLineTotals([
+      { stake: 10, potentialPayout: 35 },
+      { stake: 10, potentialPayout: 12.5 },
+    ])).toEqual({ stake: 20, potentialPayout: 47.5 });
+  });
+});
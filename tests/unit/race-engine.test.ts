@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { RaceEngine } from '@/game/engine/RaceEngine';
+import { RaceEngine, RaceFrame, SIMULATION_TIMESTEP_MS } from '@/game/engine/RaceEngine';
 import { Horse, Race } from '@/types';
 
 describe('RaceEngine', () => {
@@ -21,6 +21,8 @@ describe('RaceEngine', () => {
         consistency: 80,
         trackPreference: 'firm',
         weatherModifier: 1.0,
+        runningStyle: 'stalker',
+        optimalTrip: { min: 1000, max: 1400 },
         raceHistory: [],
         winRate: 0,
         totalRaces: 0,
@@ -36,6 +38,8 @@ describe('RaceEngine', () => {
         consistency: 90,
         trackPreference: 'soft',
         weatherModifier: 0.95,
+        runningStyle: 'stalker',
+        optimalTrip: { min: 1000, max: 1400 },
         raceHistory: [],
         winRate: 0,
         totalRaces: 0,
@@ -51,6 +55,8 @@ describe('RaceEngine', () => {
         consistency: 85,
         trackPreference: 'heavy',
         weatherModifier: 1.05,
+        runningStyle: 'stalker',
+        optimalTrip: { min: 1000, max: 1400 },
         raceHistory: [],
         winRate: 0,
         totalRaces: 0,
@@ -61,10 +67,15 @@ describe('RaceEngine', () => {
     race = {
       id: 'test-race-001',
       horses,
+      track: 'kingsgate',
+      draw: { 'horse-1': 1, 'horse-2': 2, 'horse-3': 3 },
       trackSurface: 'firm',
       weather: 'clear',
       distance: 1200,
+      raceType: 'stakes',
+      seed: 12345,
       status: 'scheduled',
+      scheduledAt: Date.now(),
       startTime: Date.now(),
     };
   });
@@ -179,6 +190,63 @@ describe('RaceEngine', () => {
     });
   });
 
+  describe('Pause and Speed', () => {
+    it('should stop producing frames while paused', () => {
+      let frameCount = 0;
+      engine = new RaceEngine(race, () => { frameCount++; });
+
+      engine.start();
+      vi.advanceTimersByTime(500);
+      engine.pause();
+      const framesAtPause = frameCount;
+      vi.advanceTimersByTime(500);
+
+      expect(engine.getIsPaused()).toBe(true);
+      expect(frameCount).toBe(framesAtPause);
+      engine.stop();
+    });
+
+    it('should resume from where it was paused', () => {
+      engine = new RaceEngine(race);
+
+      engine.start();
+      vi.advanceTimersByTime(500);
+      engine.pause();
+      const pausedPositions = engine.getCurrentPositions().map(pos => pos.position);
+      engine.resume();
+      vi.advanceTimersByTime(100);
+
+      expect(engine.getIsPaused()).toBe(false);
+      engine.getCurrentPositions().forEach((pos, i) => {
+        expect(pos.position).toBeGreaterThan(pausedPositions[i]);
+      });
+      engine.stop();
+    });
+
+    it('should advance faster with a higher speed multiplier', () => {
+      const normal = new RaceEngine(race);
+      const fast = new RaceEngine(race);
+      fast.setSpeed(2);
+
+      normal.start();
+      fast.start();
+      vi.advanceTimersByTime(1000);
+
+      expect(fast.getProgress()).toBeGreaterThan(normal.getProgress() * 1.5);
+      normal.stop();
+      fast.stop();
+    });
+
+    it('should clamp the speed multiplier', () => {
+      engine = new RaceEngine(race);
+
+      engine.setSpeed(100);
+      expect(engine.getSpeed()).toBe(4);
+      engine.setSpeed(0);
+      expect(engine.getSpeed()).toBe(0.25);
+    });
+  });
+
   describe('Progress Tracking', () => {
     it('should track progress from 0 to 100', () => {
       let maxProgress = 0;
@@ -316,6 +384,119 @@ describe('RaceEngine', () => {
     });
   });
 
+  describe('Distance and Trip', () => {
+    const finalStamina = (distance: number) => {
+      engine = new RaceEngine({ ...race, distance });
+      engine.runToCompletion();
+      const frames = engine.getFrames();
+      return frames[frames.length - 1].positions[0].stamina;
+    };
+
+    it('should empty the tank further over longer distances', () => {
+      const sprint = finalStamina(1000);
+      const route = finalStamina(2000);
+
+      expect(sprint).toBeLessThan(90);
+      expect(route).toBeLessThan(sprint);
+    });
+
+    it('should slow horses running outside their optimal trip', () => {
+      const suited = { ...horses[0], id: 'suited', consistency: 100 };
+      const unsuited = { ...suited, id: 'unsuited', optimalTrip: { min: 1600, max: 2000 } };
+      engine = new RaceEngine({
+        ...race,
+        horses: [suited, unsuited],
+        draw: { suited: 1, unsuited: 1 },
+      });
+
+      expect(engine.runToCompletion()[0].horseId).toBe('suited');
+    });
+  });
+
+  describe('Running Styles', () => {
+    const withStyles = (): Race => ({
+      ...race,
+      horses: [
+        { ...horses[0], id: 'front', consistency: 100, runningStyle: 'front-runner' },
+        { ...horses[0], id: 'closer', consistency: 100, runningStyle: 'closer' },
+      ],
+    });
+
+    it('should send front-runners forward early and let closers finish fastest', () => {
+      engine = new RaceEngine(withStyles());
+      engine.runToCompletion();
+
+      const frames = engine.getFrames();
+      const early = frames.find((f) => f.positions.some((p) => p.position >= 0.3))!;
+      const front = early.positions.find((p) => p.horseId === 'front')!;
+      const closer = early.positions.find((p) => p.horseId === 'closer')!;
+      expect(front.position).toBeGreaterThan(closer.position);
+
+      const last = frames[frames.length - 1].positions;
+      const late = frames.find((f) => f.positions.some((p) => p.position >= 0.9))!.positions;
+      expect(late.find((p) => p.horseId === 'closer')!.velocity)
+        .toBeGreaterThan(late.find((p) => p.horseId === 'front')!.velocity);
+      expect(last.every((p) => p.finished)).toBe(true);
+    });
+
+    it('should make front-runners spend their energy earlier', () => {
+      engine = new RaceEngine(withStyles());
+      engine.runToCompletion();
+
+      const frames = engine.getFrames();
+      const halfway = frames.find((f) => f.positions.every((p) => p.position >= 0.5))!.positions;
+      expect(halfway.find((p) => p.horseId === 'front')!.stamina)
+        .toBeLessThan(halfway.find((p) => p.horseId === 'closer')!.stamina);
+    });
+  });
+
+  describe('Lanes and Traffic', () => {
+    it('should start each horse in its own lane', () => {
+      engine = new RaceEngine(race);
+
+      expect(engine.getCurrentPositions().map(pos => pos.lane)).toEqual([0, 1, 2]);
+    });
+
+    it('should change lanes gradually and stay on the track', () => {
+      engine = new RaceEngine(race);
+      engine.runToCompletion();
+
+      const frames = engine.getFrames();
+      frames.forEach((frame, i) => {
+        frame.positions.forEach((pos, j) => {
+          expect(pos.lane).toBeGreaterThanOrEqual(0);
+          expect(pos.lane).toBeLessThanOrEqual(horses.length - 1);
+          if (i > 0) {
+            expect(Math.abs(pos.lane - frames[i - 1].positions[j].lane)).toBeLessThanOrEqual(0.04 + 1e-9);
+          }
+        });
+      });
+    });
+
+    it('should not let a blocked horse run faster than the horse in front', () => {
+      const field: Race = {
+        ...race,
+        horses: horses.map((horse, i) => ({ ...horse, id: `horse-${i + 1}`, consistency: 100, topSpeed: 70 + i * 10 })),
+      };
+      engine = new RaceEngine(field);
+      engine.runToCompletion();
+
+      const frames = engine.getFrames();
+      frames.forEach((frame, i) => {
+        if (i === 0) return;
+        frame.positions.filter(pos => pos.blocked).forEach(pos => {
+          const fastestAhead = Math.max(
+            ...frames[i - 1].positions
+              .filter(other => other.horseId !== pos.horseId && other.position > pos.position)
+              .map(other => other.velocity)
+          );
+          expect(pos.velocity).toBeLessThanOrEqual(fastestAhead);
+        });
+      });
+      expect(frames.some(frame => frame.positions.some(pos => pos.drafting || pos.blocked))).toBe(true);
+    });
+  });
+
   describe('Race Completion', () => {
     it('should mark horses as finished when they reach 1', () => {
       engine = new RaceEngine(
@@ -397,6 +578,252 @@ describe('RaceEngine', () => {
     });
   });
 
+  describe('Fixed Timestep', () => {
+    it('should advance one frame per fixed timestep', () => {
+      engine = new RaceEngine(race);
+
+      expect(engine.step(SIMULATION_TIMESTEP_MS * 3)).toHaveLength(3);
+      expect(engine.step(SIMULATION_TIMESTEP_MS / 2)).toHaveLength(0);
+      expect(engine.step(SIMULATION_TIMESTEP_MS / 2)).toHaveLength(1);
+    });
+
+    it('should stamp frames with simulated time', () => {
+      engine = new RaceEngine(race);
+      const frames = engine.step(SIMULATION_TIMESTEP_MS * 2);
+
+      expect(frames[0].time).toBeCloseTo(SIMULATION_TIMESTEP_MS);
+      expect(frames[1].time).toBeCloseTo(SIMULATION_TIMESTEP_MS * 2);
+    });
+
+    it('should produce the same race regardless of step size', () => {
+      const coarse = new RaceEngine(race);
+      const fine = new RaceEngine(race);
+
+      while (!coarse.getResults()) coarse.step(SIMULATION_TIMESTEP_MS * 2);
+      while (!fine.getResults()) fine.step(SIMULATION_TIMESTEP_MS / 2);
+
+      expect(fine.getResults()).toEqual(coarse.getResults());
+    });
+
+    it('should run to completion without animation frames', () => {
+      vi.useRealTimers();
+      let onCompleteCalled = false;
+
+      engine = new RaceEngine(race, undefined, () => { onCompleteCalled = true; });
+      const results = engine.runToCompletion();
+
+      expect(onCompleteCalled).toBe(true);
+      expect(results).toHaveLength(3);
+      expect(engine.getResults()).toBe(results);
+      engine.getCurrentPositions().forEach(pos => {
+        expect(pos.finished).toBe(true);
+      });
+    });
+
+    it('should interpolate positions between simulated frames', () => {
+      engine = new RaceEngine(race);
+      engine.step(SIMULATION_TIMESTEP_MS * 10);
+      const before = engine.getCurrentPositions().map(pos => pos.position);
+      engine.step(SIMULATION_TIMESTEP_MS);
+      const after = engine.getCurrentPositions().map(pos => pos.position);
+      engine.step(SIMULATION_TIMESTEP_MS / 2);
+
+      engine.getInterpolatedPositions().forEach((pos, i) => {
+        expect(pos.position).toBeCloseTo((before[i] + after[i]) / 2);
+      });
+    });
+  });
+
+  describe('Snapshots', () => {
+    it('should describe the race as simulated so far', () => {
+      engine = new RaceEngine(race);
+      const frames = engine.step(SIMULATION_TIMESTEP_MS * 30);
+      const snapshot = engine.getSnapshot();
+      const lastFrame = frames[frames.length - 1];
+
+      expect(snapshot.time).toBe(lastFrame.time);
+      expect(snapshot.leader).toBe(lastFrame.leader);
+      expect(snapshot.positions).toEqual(lastFrame.positions);
+      expect(snapshot.progress).toBe(Math.max(...lastFrame.positions.map(pos => pos.position)));
+      expect(snapshot.finished).toBe(false);
+      snapshot.positions.forEach(pos => {
+        expect(snapshot.remainingMetres[pos.horseId]).toBeCloseTo((1 - pos.position) * race.distance);
+      });
+    });
+
+    it('should keep a snapshot unchanged as the race goes on', () => {
+      engine = new RaceEngine(race);
+      engine.step(SIMULATION_TIMESTEP_MS * 10);
+      const snapshot = engine.getSnapshot();
+      const positions = snapshot.positions.map(pos => pos.position);
+
+      engine.step(SIMULATION_TIMESTEP_MS * 10);
+
+      expect(snapshot.positions.map(pos => pos.position)).toEqual(positions);
+    });
+
+    it('should mark the race finished once results are in', () => {
+      vi.useRealTimers();
+      engine = new RaceEngine(race);
+      engine.runToCompletion();
+
+      expect(engine.getSnapshot()).toMatchObject({ finished: true, progress: 1 });
+    });
+  });
+
+  describe('Finish Times', () => {
+    it('should order results by interpolated finish time', () => {
+      engine = new RaceEngine(race);
+      const results = engine.runToCompletion();
+
+      for (let i = 0; i < results.length - 1; i++) {
+        expect(results[i].time).toBeLessThan(results[i + 1].time);
+      }
+
+      const times = new Set(results.map(r => r.time));
+      expect(times.size).toBe(results.length);
+    });
+
+    it('should record margins to the horse in front in lengths', () => {
+      engine = new RaceEngine(race);
+      const results = engine.runToCompletion();
+
+      expect(results[0].margin).toBe(0);
+      results.slice(1).forEach(result => {
+        expect(result.margin).toBeGreaterThan(0);
+      });
+    });
+
+    it('should report the first horse across the line as leader at the finish', () => {
+      const frames: RaceFrame[] = [];
+      engine = new RaceEngine(race, (frame) => { frames.push(frame); });
+      const results = engine.runToCompletion();
+
+      expect(frames[frames.length - 1].leader).toBe(results[0].horseId);
+    });
+  });
+
+  describe('Sectionals', () => {
+    it('should record a split every 200m ending at the finish', () => {
+      engine = new RaceEngine({ ...race, distance: 1300 });
+      const results = engine.runToCompletion();
+
+      const distances = results[0].sectionals.splits.map(split => split.distance);
+      expect(distances).toEqual([200, 400, 600, 800, 1000, 1200, 1300]);
+    });
+
+    it('should have splits that add up to the finish time', () => {
+      engine = new RaceEngine(race);
+      const results = engine.runToCompletion();
+
+      results.forEach(result => {
+        const total = result.sectionals.splits.reduce((sum, split) => sum + split.split, 0);
+        expect(total).toBeCloseTo(result.time);
+      });
+    });
+
+    it('should call running positions at the 1/4, 1/2 and 3/4 points', () => {
+      engine = new RaceEngine(race);
+      const results = engine.runToCompletion();
+
+      expect(results[0].sectionals.calls.map(call => call.label)).toEqual(['1/4', '1/2', '3/4']);
+      [0, 1, 2].forEach(callIndex => {
+        const positions = results.map(r => r.sectionals.calls[callIndex].position).sort();
+        expect(positions).toEqual([1, 2, 3]);
+      });
+    });
+  });
+
+  describe('Photo Finish', () => {
+    it('should declare a dead heat between inseparable horses', () => {
+      const twin: Horse = { ...horses[0], id: 'horse-1-twin' };
+      // Twins sharing a gate, so neither the draw nor the lanes can separate them
+      const deadHeatRace: Race = {
+        ...race,
+        horses: [horses[0], twin, horses[2]],
+        draw: { 'horse-1': 1, 'horse-1-twin': 1, 'horse-3': 3 },
+      };
+
+      engine = new RaceEngine(deadHeatRace, undefined, undefined, () => 0.5);
+      const results = engine.runToCompletion();
+
+      expect(results[0].position).toBe(1);
+      expect(results[1].position).toBe(1);
+      expect(results[0].deadHeat).toBe(true);
+      expect(results[1].deadHeat).toBe(true);
+      expect(results[2].position).toBe(3);
+
+      const photo = engine.getPhotoFinish();
+      expect(photo?.deadHeat).toBe(true);
+      expect(photo?.horseIds).toEqual(['horse-1', 'horse-1-twin']);
+    });
+
+    it('should place the winner on the line in the photo', () => {
+      const twin: Horse = { ...horses[0], id: 'horse-1-twin' };
+      engine = new RaceEngine({ ...race, horses: [horses[0], twin] }, undefined, undefined, () => 0.5);
+      engine.runToCompletion();
+
+      const photo = engine.getPhotoFinish();
+      photo?.positions.forEach(pos => {
+        expect(pos.position).toBeCloseTo(1);
+      });
+    });
+
+    it('should not call a photo for a clear winner', () => {
+      const slow: Horse = { ...horses[2], topSpeed: 40, acceleration: 40, stamina: 40 };
+      engine = new RaceEngine({ ...race, horses: [horses[0], slow] });
+      engine.runToCompletion();
+
+      expect(engine.getPhotoFinish()).toBeNull();
+    });
+  });
+
+  describe('Determinism', () => {
+    const runRace = (raceToRun: Race) => {
+      const frames: RaceFrame[] = [];
+
+      engine = new RaceEngine(raceToRun, (frame) => { frames.push(frame); });
+      const results = engine.runToCompletion();
+
+      return { frames, results };
+    };
+
+    it('should produce identical frames and results for the same seed', () => {
+      const first = runRace(race);
+      const second = runRace({ ...race });
+
+      expect(first.results).toHaveLength(3);
+      expect(second.frames).toEqual(first.frames);
+      expect(second.results).toEqual(first.results);
+    });
+
+    it('should reproduce a race from a serialized replay', () => {
+      const original = runRace(race);
+      const restored = runRace(JSON.parse(JSON.stringify(race)));
+
+      expect(JSON.stringify(restored.results)).toBe(JSON.stringify(original.results));
+      expect(restored.frames).toEqual(original.frames);
+    });
+
+    it('should produce different races for different seeds', () => {
+      const first = runRace(race);
+      const second = runRace({ ...race, seed: 54321 });
+
+      expect(second.frames).not.toEqual(first.frames);
+    });
+
+    it('should accept a custom random source', () => {
+      const random = vi.fn(() => 0.5);
+      engine = new RaceEngine(race, undefined, undefined, random);
+
+      engine.start();
+      vi.advanceTimersByTime(16);
+      engine.stop();
+
+      expect(random).toHaveBeenCalled();
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle empty horse array', () => {
       const emptyRace: Race = { ...race, horses: [] };
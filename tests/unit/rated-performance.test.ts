@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { getBaseRating, getRaceConditions, getRatedPerformance, rateRunner } from '@/utils/ratedPerformance';
+import { calculateOdds } from '@/utils/oddsCalculator';
+import { RaceEngine } from '@/game/engine/RaceEngine';
+import { Horse, Race } from '@/types';
+import { createTestHorse, createTestRace } from '../helpers/test-utils';
+
+const horse = (overrides: Partial<Horse> = {}): Horse => createTestHorse({
+  topSpeed: 90,
+  stamina: 70,
+  consistency: 100,
+  trackPreference: 'soft',
+  weatherModifier: 1.05,
+  optimalTrip: { min: 1600, max: 2000 },
+  ...overrides,
+});
+
+const raceWith = (horses: Horse[]): Race => createTestRace({
+  horses,
+  track: 'meadowbrook',
+  weather: 'rain',
+  distance: 1200,
+  seed: 99,
+});
+
+describe('Rated Performance', () => {
+  it('should rate from stats and apply every condition multiplier', () => {
+    const runner = horse();
+    const rated = getRatedPerformance(runner, getRaceConditions(raceWith([runner, horse({ id: 'horse-2' })])), 2);
+
+    expect(rated.base).toBe(getBaseRating(runner));
+    expect(rated.going).toBeLessThan(1); // Prefers softer ground
+    expect(rated.draw).toBeLessThan(1); // Wide draw where low draws are favoured
+    expect(rated.trip).toBeLessThan(1); // Sprinting a stayer
+    expect(rated.rating).toBeCloseTo(rated.base * rated.going * rated.draw * rated.trip);
+  });
+
+  it('should rate the runner the engine simulates', () => {
+    const runner = horse();
+    const race = raceWith([runner]);
+    const engine = new RaceEngine(race);
+    engine.runToCompletion();
+
+    // Cruising mid-race: past the acceleration phase, before tactics or fade kick in
+    const cruising = engine.getFrames().find(f => f.positions[0].position > 0.15)!;
+    expect(cruising.positions[0].velocity).toBeCloseTo(rateRunner(runner, race).rating, 6);
+  });
+
+  it('should price a higher rated horse shorter', () => {
+    const fast = horse({ id: 'fast', trackPreference: 'firm', optimalTrip: { min: 1000, max: 1400 } });
+    const slow = horse({ id: 'slow' });
+    const race = raceWith([fast, slow]);
+
+    expect(rateRunner(fast, race).rating).toBeGreaterThan(rateRunner(slow, race).rating);
+    expect(calculateOdds(fast, race)).toBeLessThan(calculateOdds(slow, race));
+  });
+
+  it('should price stats as the weighted average of each stat against the field', () => {
+    const sprinter = horse({ id: 'sprinter', topSpeed: 100, acceleration: 70, stamina: 70 });
+    const grinder = horse({ id: 'grinder', topSpeed: 60, acceleration: 100, stamina: 100 });
+    const race = raceWith([sprinter, grinder]);
+
+    // Speed against a field average of 80, acceleration and stamina against 85
+    const statsFactor = ((100 / 80) * 0.4 + (70 / 85) * 0.3 + (70 / 85) * 0.3) / 1.5;
+    const { going, draw, trip } = rateRunner(sprinter, race);
+    const probability = statsFactor * 0.35 + going * draw * trip * 0.25;
+
+    expect(calculateOdds(sprinter, race)).toBe(Math.round((1 / probability) * 100) / 100);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { getSettlementFactor } from '@/utils/settlement';
+import { RaceResult } from '@/types';
+
+const result = (horseId: string, position: number, deadHeat = false): RaceResult => ({
+  horseId,
+  position,
+  time: 0,
+  finalSpeed: 0,
+  margin: 0,
+  deadHeat,
+  sectionals: { splits: [], calls: [] },
+});
+
+describe('getSettlementFactor', () => {
+  const clear = [result('a', 1), result('b', 2), result('c', 3), result('d', 4)];
+
+  it('should pay winners in full and losers nothing', () => {
+    expect(getSettlementFactor({ type: 'win', horseIds: ['a'] }, clear)).toBe(1);
+    expect(getSettlementFactor({ type: 'win', horseIds: ['b'] }, clear)).toBe(0);
+    expect(getSettlementFactor({ type: 'place', horseIds: ['b'] }, clear)).toBe(1);
+    expect(getSettlementFactor({ type: 'show', horseIds: ['d'] }, clear)).toBe(0);
+    expect(getSettlementFactor({ type: 'exacta', horseIds: ['a', 'b'] }, clear)).toBe(1);
+    expect(getSettlementFactor({ type: 'exacta', horseIds: ['b', 'a'] }, clear)).toBe(0);
+  });
+
+  it('should split the stake on a dead heat for the win', () => {
+    const deadHeat = [result('a', 1, true), result('b', 1, true), result('c', 3)];
+
+    expect(getSettlementFactor({ type: 'win', horseIds: ['a'] }, deadHeat)).toBe(0.5);
+    expect(getSettlementFactor({ type: 'win', horseIds: ['b'] }, deadHeat)).toBe(0.5);
+    expect(getSettlementFactor({ type: 'place', horseIds: ['b'] }, deadHeat)).toBe(1);
+  });
+
+  it('should split the stake on a dead heat for the last paid place', () => {
+    const deadHeat = [result('a', 1), result('b', 2, true), result('c', 2, true), result('d', 4)];
+
+    expect(getSettlementFactor({ type: 'place', horseIds: ['c'] }, deadHeat)).toBe(0.5);
+    expect(getSettlementFactor({ type: 'show', horseIds: ['c'] }, deadHeat)).toBe(1);
+    expect(getSettlementFactor({ type: 'exacta', horseIds: ['a', 'c'] }, deadHeat)).toBe(0.5);
+  });
+});
+
+describe('getSettlementFactor for exotics', () => {
+  const clear = [result('a', 1), result('b', 2), result('c', 3), result('d', 4), result('e', 5)];
+
+  it('should pay ordered exotics only in the exact order', () => {
+    expect(getSettlementFactor({ type: 'trifecta', horseIds: ['a', 'b', 'c'] }, clear)).toBe(1);
+    expect(getSettlementFactor({ type: 'trifecta', horseIds: ['a', 'c', 'b'] }, clear)).toBe(0);
+    expect(getSettlementFactor({ type: 'superfecta', horseIds: ['a', 'b', 'c', 'd'] }, clear)).toBe(1);
+    expect(getSettlementFactor({ type: 'superfecta', horseIds: ['a', 'b', 'c', 'e'] }, clear)).toBe(0);
+  });
+
+  it('should pay unordered exotics in any order', () => {
+    expect(getSettlementFactor({ type: 'quinella', horseIds: ['b', 'a'] }, clear)).toBe(1);
+    expect(getSettlementFactor({ type: 'quinella', horseIds: ['a', 'c'] }, clear)).toBe(0);
+    expect(getSettlementFactor({ type: 'first-four', horseIds: ['d', 'b', 'a', 'c'] }, clear)).toBe(1);
+    expect(getSettlementFactor({ type: 'first-four', horseIds: ['a', 'b', 'c', 'e'] }, clear)).toBe(0);
+  });
+
+  it('should not pay a line naming too few or repeated horses', () => {
+    expect(getSettlementFactor({ type: 'trifecta', horseIds: ['a', 'b'] }, clear)).toBe(0);
+    expect(getSettlementFactor({ type: 'quinella', horseIds: ['a', 'a'] }, clear)).toBe(0);
+  });
+
+  it('should share exotic payouts across dead heats', () => {
+    const deadHeatForWin = [result('a', 1, true), result('b', 1, true), result('c', 3), result('d', 4)];
+    const deadHeatForThird = [result('a', 1), result('b', 2), result('c', 3, true), result('d', 3, true)];
+
+    // Both orders of the dead heat are winning quinella orders
+    expect(getSettlementFactor({ type: 'quinella', horseIds: ['a', 'b'] }, deadHeatForWin)).toBe(1);
+    expect(getSettlementFactor({ type: 'trifecta', horseIds: ['b', 'a', 'c'] }, deadHeatForWin)).toBe(0.5);
+    expect(getSettlementFactor({ type: 'trifecta', horseIds: ['a', 'b', 'd'] }, deadHeatForThird)).toBe(0.5);
+    expect(getSettlementFactor({ type: 'first-four', horseIds: ['a', 'b', 'c', 'd'] }, deadHeatForThird)).toBe(1);
+  });
+});
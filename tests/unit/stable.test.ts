@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useHorseStore } from '@/stores/horseStore';
+import { createSeededRandom } from '@/utils/random';
+import { generateUpcomingRaces } from '@/utils/raceScheduler';
+
+const drawField = (seed: number) => {
+  useHorseStore.setState({ horses: [] });
+  return useHorseStore.getState().getRaceHorses(8, createSeededRandom(seed));
+};
+
+describe('stable', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should generate the same horses, ids included, from the same seed', () => {
+    const horses = drawField(7);
+
+    expect(drawField(7)).toEqual(horses);
+    expect(horses.map((horse) => horse.id)).toEqual(
+      ['horse-1', 'horse-2', 'horse-3', 'horse-4', 'horse-5', 'horse-6', 'horse-7', 'horse-8']
+    );
+  });
+
+  it('should draw the same field from an existing stable with the same seed', () => {
+    drawField(7);
+    const { getRaceHorses } = useHorseStore.getState();
+
+    const field = getRaceHorses(4, createSeededRandom(11));
+
+    expect(getRaceHorses(4, createSeededRandom(11))).toEqual(field);
+    expect(new Set(field.map((horse) => horse.id)).size).toBe(4);
+  });
+});
+
+describe('race schedule', () => {
+  it('should give races ids that do not reveal their seeds', () => {
+    const races = generateUpcomingRaces(drawField(3), 6, createSeededRandom(5));
+
+    for (const race of races) {
+      expect(race.id).not.toContain(race.seed.toString(16).padStart(8, '0'));
+    }
+    expect(new Set(races.map((race) => race.id)).size).toBe(6);
+  });
+});
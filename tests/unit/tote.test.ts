@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  addToPool,
+  createTote,
+  declareDividends,
+  getApproximateDividend,
+  getDividend,
+  seedCrowdMoney,
+} from '@/utils/tote';
+import { createBook } from '@/utils/book';
+import { useBettingStore } from '@/stores/bettingStore';
+import { RaceResult, Tote } from '@/types';
+import { createTestHorse, createTestRace } from '../helpers/test-utils';
+
+const race = createTestRace({
+  horses: [
+    createTestHorse({ id: 'a', topSpeed: 95 }),
+    createTestHorse({ id: 'b', topSpeed: 85 }),
+    createTestHorse({ id: 'c' }),
+    createTestHorse({ id: 'd', topSpeed: 72 }),
+  ],
+});
+
+const result = (horseId: string, position: number, deadHeat = false): RaceResult => ({
+  horseId,
+  position,
+  time: 0,
+  finalSpeed: 0,
+  margin: 0,
+  deadHeat,
+  sectionals: { splits: [], calls: [] },
+});
+
+const clear = [result('a', 1), result('b', 2), result('c', 3), result('d', 4)];
+
+/**
+ * Pools with known money: 100 on a, 100 on b and 200 on c in the win and
+ * place pools, and 50 on each of a-b and b-a in the exacta
+ */
+function knownPools(): Tote {
+  let tote = createTote(race);
+  (['win', 'place'] as const).forEach((market) => {
+    tote = addToPool(tote, market, ['a'], 100);
+    tote = addToPool(tote, market, ['b'], 100);
+    tote = addToPool(tote, market, ['c'], 200);
+  });
+  tote = addToPool(tote, 'exacta', ['a', 'b'], 50);
+  tote = addToPool(tote, 'exacta', ['b', 'a'], 50);
+  return tote;
+}
+
+describe('Tote', () => {
+  it('should add and withdraw stakes from a pool', () => {
+    let tote = addToPool(createTote(race), 'win', ['a'], 100);
+    tote = addToPool(tote, 'win', ['b'], 50);
+    tote = addToPool(tote, 'win', ['a'], -40);
+
+    expect(tote.pools.win.total).toBe(110);
+    expect(tote.pools.win.stakes.a).toBe(60);
+    expect(tote.pools.place.total).toBe(0);
+  });
+
+  it('should pay the net pool to the winning tickets', () => {
+    const { dividends } = declareDividends(knownPools(), clear);
+
+    // (400 less 15% takeout) / 100 on the winner
+    expect(dividends.win).toEqual({ a: 3.4 });
+    // 400 less 18%, less the stakes returned, split between two places
+    expect(dividends.place).toEqual({ a: 1.64, b: 1.64 });
+    // 100 less 25%, all on a-b
+    expect(dividends.exacta).toEqual({ 'a|b': 1.5 });
+  });
+
+  it('should split the profit between dead heaters', () => {
+    const deadHeat = [result('a', 1, true), result('b', 1, true), result('c', 3), result('d', 4)];
+    const dividends = declareDividends(knownPools(), deadHeat);
+
+    // 340 net less the 200 staked on the two winners, shared equally
+    expect(getDividend(dividends, 'win', ['a'])).toBe(1.7);
+    expect(getDividend(dividends, 'win', ['b'])).toBe(1.7);
+    expect(getDividend(dividends, 'win', ['c'])).toBeUndefined();
+  });
+
+  it('should pay the minimum dividend when the pool cannot cover the winners', () => {
+    const tote = addToPool(addToPool(createTote(race), 'win', ['a'], 1000), 'win', ['b'], 10);
+    const dividends = declareDividends(tote, clear);
+
+    expect(getDividend(dividends, 'win', ['a'])).toBe(1.05);
+  });
+
+  it('should declare nothing when no winning selection was backed', () => {
+    const tote = addToPool(createTote(race), 'win', ['d'], 100);
+
+    expect(declareDividends(tote, clear).dividends.win).toEqual({});
+  });
+
+  it('should seed the same crowd money for the same race', () => {
+    const book = createBook(race);
+    const first = seedCrowdMoney(createTote(race), race, book, 200);
+    const second = seedCrowdMoney(createTote(race), race, book, 200);
+
+    expect(first).toEqual(second);
+    const total = Object.values(first.pools).reduce((sum, pool) => sum + pool.total, 0);
+    expect(total).toBeGreaterThanOrEqual(200 * 10);
+    expect(first.pools.win.total).toBeGreaterThan(0);
+    expect(first.pools.exacta.total).toBeGreaterThan(0);
+  });
+
+  it('should back the book favourite with the most crowd money', () => {
+    const book = createBook(race);
+    const tote = seedCrowdMoney(createTote(race), race, book);
+    const stakes = tote.pools.win.stakes;
+
+    expect(stakes.a).toBeGreaterThan(stakes.d ?? 0);
+    expect(getApproximateDividend(tote, 'win', ['a'])!).toBeLessThan(getApproximateDividend(tote, 'win', ['d'])!);
+  });
+
+  it('should approximate the declared dividend for a clear winner', () => {
+    const tote = knownPools();
+
+    expect(getApproximateDividend(tote, 'win', ['a'])).toBe(3.4);
+    expect(getApproximateDividend(tote, 'win', ['d'])).toBeUndefined();
+  });
+});
+
+describe('Tote settlement', () => {
+  beforeEach(() => {
+    useBettingStore.setState({ currentBets: [] });
+  });
+
+  it('should settle tote bets at the declared dividend rather than the estimate', () => {
+    const { addBet, settleBets } = useBettingStore.getState();
+    addBet({
+      raceId: race.id, type: 'win', mode: 'tote', horseIds: ['a'], amount: 10, odds: 5, potentialPayout: 50, winnings: 0, status: 'pending',
+    });
+    addBet({
+      raceId: race.id, type: 'win', mode: 'fixed', horseIds: ['a'], amount: 10, odds: 5, potentialPayout: 50, winnings: 0, status: 'pending',
+    });
+    addBet({
+      raceId: race.id, type: 'win', mode: 'tote', horseIds: ['b'], amount: 10, odds: 8, potentialPayout: 80, winnings: 0, status: 'pending',
+    });
+
+    const settled = settleBets(race.id, clear, declareDividends(knownPools(), clear));
+    const [tote, fixed, loser] = useBettingStore.getState().currentBets;
+
+    expect(tote.winnings).toBeCloseTo(34);
+    expect(fixed.winnings).toBe(50);
+    expect(loser.status).toBe('lost');
+    expect(settled.totalWinnings).toBeCloseTo(84);
+  });
+});
+
+describe('Tote pools across a reload', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  // A fresh copy of the store, as after a page reload
+  const reloadStore = async () => {
+    vi.resetModules();
+    return (await import('@/stores/toteStore')).useToteStore;
+  };
+
+  it('should keep open pools, with the player\'s stakes, across a reload', async () => {
+    const store = await reloadStore();
+    store.getState().openPools(race, createBook(race));
+    store.getState().addStake(race.id, 'win', ['d'], 500);
+    const pools = store.getState().totes[race.id];
+
+    const reloaded = await reloadStore();
+
+    expect(reloaded.getState().totes[race.id]).toEqual(pools);
+    expect(reloaded.getState().declare(race.id, clear)).toEqual(declareDividends(pools, clear));
+  });
+
+  it('should close a race\'s pools once it is declared', async () => {
+    const store = await reloadStore();
+    store.getState().openPools(race, createBook(race));
+    store.getState().declare(race.id, clear);
+
+    expect(store.getState().totes[race.id]).toBeUndefined();
+    expect((await reloadStore()).getState().totes[race.id]).toBeUndefined();
+  });
+});
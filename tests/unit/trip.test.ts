@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { generateOptimalTrip, getTripMultiplier, isSuitedToTrip } from '@/utils/trip';
+import { createSeededRandom } from '@/utils/random';
+import { Horse } from '@/types';
+import { createTestHorse } from '../helpers/test-utils';
+
+const horse = (optimalTrip: Horse['optimalTrip']) => createTestHorse({ optimalTrip });
+
+describe('Trip', () => {
+  it('should keep generated ranges within race distances', () => {
+    const random = createSeededRandom(7);
+
+    for (let stamina = 70; stamina <= 100; stamina += 5) {
+      const trip = generateOptimalTrip(stamina, random);
+      expect(trip.min).toBeGreaterThanOrEqual(1000);
+      expect(trip.max).toBeLessThanOrEqual(2000);
+      expect(trip.max - trip.min).toBe(400);
+    }
+  });
+
+  it('should suit stayers to longer trips', () => {
+    const middle = () => 0.5;
+
+    expect(generateOptimalTrip(100, middle).min).toBeGreaterThan(generateOptimalTrip(70, middle).min);
+  });
+
+  it('should penalise running outside the range, up to a limit', () => {
+    const miler = horse({ min: 1400, max: 1800 });
+
+    expect(isSuitedToTrip(miler, 1600)).toBe(true);
+    expect(getTripMultiplier(miler, 1600)).toBe(1);
+    expect(getTripMultiplier(miler, 1200)).toBeCloseTo(0.97);
+    expect(getTripMultiplier(miler, 1900)).toBeGreaterThan(getTripMultiplier(miler, 1200));
+    expect(getTripMultiplier(horse({ min: 1600, max: 2000 }), 1000)).toBeCloseTo(0.92);
+  });
+});